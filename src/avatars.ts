@@ -0,0 +1,120 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ImageLoader, LoadedImage } from './types';
+import { AVATAR } from './constants';
+
+const MIME_TYPES: Record<(typeof AVATAR.EXTENSIONS)[number], string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+};
+
+/**
+ * Avatars from GitHub's https://github.com/<owner>.png redirect. githubBaseUrl is the
+ * GraphQL API the data came from; a GitHub Enterprise one serves avatars from its host.
+ */
+export class GitHubAvatarLoader implements ImageLoader {
+  private baseUrl: string;
+  private size: number;
+  private timeoutMs: number;
+
+  constructor(
+    options: { baseUrl?: string; githubBaseUrl?: string; size?: number; timeoutMs?: number } = {}
+  ) {
+    const fromApi = options.githubBaseUrl && webUrl(options.githubBaseUrl);
+    this.baseUrl = (options.baseUrl ?? (fromApi || AVATAR.URL)).replace(/\/+$/, '');
+    this.size = options.size ?? AVATAR.FETCH_SIZE;
+    this.timeoutMs = options.timeoutMs ?? AVATAR.TIMEOUT_MS;
+  }
+
+  async load(owner: string): Promise<LoadedImage | undefined> {
+    const url = `${this.baseUrl}/${encodeURIComponent(owner)}.png?size=${this.size}`;
+    const response = await fetch(url, { signal: AbortSignal.timeout(this.timeoutMs) });
+    if (response.status === 404) return undefined;
+    if (!response.ok) throw new Error(`HTTP ${response.status} from ${url}`);
+
+    const mimeType = response.headers.get('content-type')?.split(';')[0].trim() || 'image/png';
+    return { bytes: new Uint8Array(await response.arrayBuffer()), mimeType };
+  }
+}
+
+/**
+ * Images read from <dir>/<owner>.png (or .jpg, .jpeg, .gif, .webp, .svg), for tests
+ * and offline runs. The owner is tried as given, then lower-cased; owners without a
+ * file get no image.
+ */
+export class DirectoryImageLoader implements ImageLoader {
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async load(owner: string): Promise<LoadedImage | undefined> {
+    for (const name of new Set([owner, owner.toLowerCase()])) {
+      for (const ext of AVATAR.EXTENSIONS) {
+        try {
+          const bytes = await readFile(join(this.dir, `${name}.${ext}`));
+          return { bytes: new Uint8Array(bytes), mimeType: MIME_TYPES[ext] };
+        } catch {
+          // Try the next extension
+        }
+      }
+    }
+    return undefined;
+  }
+}
+
+export function imageDataUri(image: LoadedImage): string {
+  return `data:${image.mimeType};base64,${Buffer.from(image.bytes).toString('base64')}`;
+}
+
+/**
+ * Whether a tile is large enough to carry an avatar
+ */
+export function showsAvatar(width: number, height: number, minSize: number): boolean {
+  return Math.min(width, height) >= minSize;
+}
+
+/**
+ * Data URIs of the owners' images keyed by lower-cased owner, loaded a few at a time.
+ * An image that fails to load is reported and left out rather than failing the render.
+ */
+export async function loadAvatars(
+  owners: string[],
+  loader: ImageLoader,
+  onWarning?: (message: string) => void
+): Promise<Record<string, string>> {
+  const unique = new Map<string, string>();
+  for (const owner of owners) {
+    if (owner && !unique.has(owner.toLowerCase())) unique.set(owner.toLowerCase(), owner);
+  }
+
+  const avatars: Record<string, string> = {};
+  const pending = [...unique.entries()];
+  const worker = async () => {
+    for (let next = pending.shift(); next; next = pending.shift()) {
+      const [key, owner] = next;
+      try {
+        const image = await loader.load(owner);
+        if (image) avatars[key] = imageDataUri(image);
+      } catch (error) {
+        onWarning?.(`Could not load the avatar of ${owner}: ${(error as Error).message}`);
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: AVATAR.CONCURRENCY }, worker));
+  return avatars;
+}
+
+// https://api.github.com/graphql -> https://github.com, https://ghe.example.com/api/graphql
+// -> https://ghe.example.com
+function webUrl(apiUrl: string): string {
+  const url = new URL(apiUrl);
+  if (url.hostname === 'api.github.com') return AVATAR.URL;
+  return url.origin + url.pathname.replace(/\/api(\/.*)?$/, '');
+}
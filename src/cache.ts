@@ -0,0 +1,61 @@
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import type { ContributionCacheEntry, ContributionCacheStore } from './types';
+import { CACHE } from './constants';
+
+/**
+ * $XDG_CACHE_HOME/github-contribution-treemap-generator, or ~/.cache/... without it
+ */
+export function defaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(base, CACHE.DIR_NAME);
+}
+
+export function emptyCacheEntry(baseUrl: string, username: string): ContributionCacheEntry {
+  return { version: 1, baseUrl, username, repositories: {}, searches: {}, commits: {} };
+}
+
+/**
+ * One JSON file per API base URL and username, so a shared directory never mixes
+ * users or GitHub instances. Logins are case-insensitive, so the key is too.
+ */
+export class FileContributionCache implements ContributionCacheStore {
+  private dir: string;
+
+  constructor(dir: string = defaultCacheDir()) {
+    this.dir = dir;
+  }
+
+  private pathFor(baseUrl: string, username: string): string {
+    const key = createHash('sha256').update(`${baseUrl}\n${username.toLowerCase()}`).digest('hex');
+    return join(this.dir, `${key.slice(0, 32)}.json`);
+  }
+
+  load(baseUrl: string, username: string): ContributionCacheEntry | undefined {
+    let entry: ContributionCacheEntry;
+    try {
+      entry = JSON.parse(readFileSync(this.pathFor(baseUrl, username), 'utf8'));
+    } catch {
+      return undefined;
+    }
+
+    // A different format version, or a hash collision, is treated as a miss
+    const matches =
+      entry?.version === 1 &&
+      entry.baseUrl === baseUrl &&
+      entry.username?.toLowerCase() === username.toLowerCase();
+    return matches ? entry : undefined;
+  }
+
+  save(entry: ContributionCacheEntry): void {
+    const path = this.pathFor(entry.baseUrl, entry.username);
+    mkdirSync(this.dir, { recursive: true });
+
+    // Write then rename, so concurrent runs never read a half-written file
+    const tmp = `${path}.${process.pid}.tmp`;
+    writeFileSync(tmp, JSON.stringify(entry));
+    renameSync(tmp, path);
+  }
+}
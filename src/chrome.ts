@@ -0,0 +1,14 @@
+import type { TreemapConfig } from './types';
+import { CHROME, LEGEND } from './constants';
+
+/**
+ * Space the header takes above the tiles and the legend and footer below them
+ */
+export function chromeInsets(
+  config: Partial<Pick<TreemapConfig, 'header' | 'legend' | 'footer'>>
+): { top: number; bottom: number } {
+  return {
+    top: config.header ? CHROME.HEADER_HEIGHT : 0,
+    bottom: (config.legend ? LEGEND.HEIGHT : 0) + (config.footer ? CHROME.FOOTER_HEIGHT : 0),
+  };
+}
@@ -1,8 +1,51 @@
 import { Command, Option, InvalidOptionArgumentError } from 'commander';
-import { generateContributionTreemap } from './index.js';
-import { writeFileSync } from 'fs';
+import { fetchTreemapData, layoutTreemap, layoutTreemapData, loadTreemapAvatars, renderTreemapData } from './index.js';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
 import process from 'node:process';
-import { DEFAULT_CONFIG, DEFAULT_GITHUB_CONFIG } from './constants.js';
+import {
+  DEFAULT_CONFIG,
+  DEFAULT_GITHUB_CONFIG,
+  CONTRIBUTION_KINDS,
+  DEFAULT_CONTRIBUTION_KINDS,
+  DEFAULT_LAYOUT_OPTIONS,
+  TREEMAP_TILINGS,
+  OUTPUT,
+  CACHE,
+  CHROME,
+  CONFIG_FILE,
+} from './constants.js';
+import type {
+  ContributionKind,
+  ContributionWeights,
+  RepositoryMetric,
+  ColorBy,
+  NamedMetricScale,
+  TreemapTiling,
+  LayoutState,
+  GroupBy,
+  ThemeName,
+  ThemePalette,
+  ColorInterpolation,
+  FontMode,
+  OutputFormat,
+  TreemapData,
+  MemberBreakdown,
+  ConfigFileOptions,
+} from './types.js';
+import { parseDate } from './time-window.js';
+import { REPOSITORY_METRICS, COLOR_BY_MODES, METRIC_SCALES } from './metrics.js';
+import { GROUP_BY_MODES } from './grouping.js';
+import { THEME_NAMES, isThemeName, parseTheme } from './themes.js';
+import { COLOR_INTERPOLATIONS, parseColor, splitColorList } from './color.js';
+import { FONT_MODES } from './font-embed.js';
+import { loadFontFile } from './font.js';
+import { OUTPUT_FORMATS, formatFromPath, renderTo } from './output.js';
+import { parseTreemapData } from './data.js';
+import { LABEL_FIELDS, parseLabelTemplate } from './labels.js';
+import { MEMBER_BREAKDOWNS, parseTeam } from './team.js';
+import { compilePattern, createRepositoryFilter } from './filter.js';
+import { defaultCacheDir } from './cache.js';
+import { findConfigFile, loadConfigFile, mergeConfigOptions, resolveConfigOutputs } from './config-file.js';
 
 // Injected at build time via tsup define
 declare const __VERSION__: string | undefined;
@@ -15,6 +58,12 @@ const parsePositiveInt = (value: string): number => {
   return n;
 };
 
+const parseNonNegativeInt = (value: string): number => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) throw new InvalidOptionArgumentError(`Invalid non-negative integer: ${value}`);
+  return n;
+};
+
 const parseList = (value: string): string[] => {
   return value
     .split(',')
@@ -22,6 +71,447 @@ const parseList = (value: string): string[] => {
     .filter(Boolean);
 };
 
+const parsePositiveNumber = (value: string): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n <= 0) throw new InvalidOptionArgumentError(`Invalid positive number: ${value}`);
+  return n;
+};
+
+// WCAG contrast ratios run from 1 (none) to 21 (black on white)
+const parseContrastRatio = (value: string): number => {
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < 1 || n > 21) throw new InvalidOptionArgumentError(`Invalid contrast ratio: ${value} (expected 1 to 21)`);
+  return n;
+};
+
+// Repeatable "name=owner,owner/repo" -> { name: ['owner', 'owner/repo'] }
+const collectGroup = (value: string, previous: Record<string, string[]> = {}): Record<string, string[]> => {
+  const eq = value.indexOf('=');
+  const name = eq > 0 ? value.slice(0, eq).trim() : '';
+  const members = parseList(value.slice(eq + 1));
+  if (!name || members.length === 0) throw new InvalidOptionArgumentError(`Invalid group: ${value} (expected name=owner,owner/repo)`);
+  return { ...previous, [name]: [...(previous[name] ?? []), ...members] };
+};
+
+// Repeatable; a value may hold several comma-separated globs, but a /regex/ is kept whole
+const collectPatterns = (value: string, previous: string[] = []): string[] => {
+  const patterns = /^\/.+\/[a-z]*$/.test(value) ? [value] : parseList(value);
+  for (const pattern of patterns) {
+    try {
+      compilePattern(pattern);
+    } catch (error) {
+      throw new InvalidOptionArgumentError((error as Error).message);
+    }
+  }
+  return [...previous, ...patterns];
+};
+
+// AVATARS=1 or true turns avatars on and 0 or false off; anything else is a directory
+const parseAvatarsArg = (value: string): string | boolean => {
+  if (/^(1|true)$/i.test(value)) return true;
+  if (/^(0|false)$/i.test(value)) return false;
+  return value;
+};
+
+// Built-in theme name, or a path to a JSON theme file
+const parseThemeArg = (value: string): ThemeName | ThemePalette => {
+  if (isThemeName(value)) return value;
+  try {
+    return parseTheme(JSON.parse(readFileSync(value, 'utf8')));
+  } catch (error) {
+    throw new InvalidOptionArgumentError(
+      `Invalid theme: ${value} (expected one of ${THEME_NAMES.join(', ')} or a JSON theme file: ${(error as Error).message})`
+    );
+  }
+};
+
+const parseColorList = (value: string): string[] => {
+  const colors = splitColorList(value);
+  for (const color of colors) {
+    try {
+      parseColor(color);
+    } catch {
+      throw new InvalidOptionArgumentError(`Invalid color: ${color}`);
+    }
+  }
+  return colors;
+};
+
+const parseColorArg = (value: string): string => {
+  try {
+    parseColor(value);
+  } catch {
+    throw new InvalidOptionArgumentError(`Invalid color: ${value}`);
+  }
+  return value;
+};
+
+// Shells pass "\n" through literally, so it separates template lines too
+const parseLabelArg = (value: string): string => {
+  const template = value.replace(/\\n/g, '\n');
+  try {
+    parseLabelTemplate(template);
+  } catch (error) {
+    throw new InvalidOptionArgumentError((error as Error).message);
+  }
+  return template;
+};
+
+const parseTeamArg = (value: string): string => {
+  try {
+    parseTeam(value);
+  } catch (error) {
+    throw new InvalidOptionArgumentError((error as Error).message);
+  }
+  return value;
+};
+
+const parseLocaleArg = (value: string): string => {
+  try {
+    return Intl.getCanonicalLocales(value)[0];
+  } catch {
+    throw new InvalidOptionArgumentError(`Invalid locale: ${value} (expected a BCP 47 tag like en-US or de)`);
+  }
+};
+
+const parseDateArg = (value: string): string => {
+  try {
+    parseDate(value);
+  } catch {
+    throw new InvalidOptionArgumentError(`Invalid date: ${value} (expected YYYY-MM-DD or ISO 8601)`);
+  }
+  return value;
+};
+
+const parseContributionKind = (value: string): ContributionKind => {
+  if (!(CONTRIBUTION_KINDS as readonly string[]).includes(value)) {
+    throw new InvalidOptionArgumentError(
+      `Unknown contribution kind: ${value} (expected one of ${CONTRIBUTION_KINDS.join(', ')})`
+    );
+  }
+  return value as ContributionKind;
+};
+
+const parseContributionKinds = (value: string): ContributionKind[] => {
+  return parseList(value).map(parseContributionKind);
+};
+
+// "reviews=0.5,commits=0.1" -> { reviews: 0.5, commits: 0.1 }
+const parseWeights = (value: string): ContributionWeights => {
+  const weights: ContributionWeights = {};
+  for (const pair of parseList(value)) {
+    const [kind, raw] = pair.split('=').map((s) => s.trim());
+    const weight = Number(raw);
+    if (raw === undefined || !Number.isFinite(weight) || weight < 0) {
+      throw new InvalidOptionArgumentError(`Invalid weight: ${pair}`);
+    }
+    weights[parseContributionKind(kind)] = weight;
+  }
+  return weights;
+};
+
+interface CliOptions {
+  config?: string | false;
+  profile?: string[];
+  token?: string;
+  username?: string;
+  members?: string[];
+  org?: string;
+  team?: string;
+  output?: string;
+  input?: string;
+  format?: OutputFormat;
+  scale: number;
+  width: number;
+  height: number;
+  excludeRepos: string[] | string;
+  excludeOwners: string[] | string;
+  include?: string[];
+  exclude?: string[];
+  minRepoStars?: number;
+  includeOwn?: boolean;
+  includeForks?: boolean;
+  archived: boolean;
+  private: boolean;
+  language?: string[];
+  excludeLanguage?: string[];
+  contributions: ContributionKind[];
+  weights?: ContributionWeights;
+  since?: string;
+  until?: string;
+  lastDays?: number;
+  year?: number;
+  sizeBy: RepositoryMetric;
+  sizeScale: NamedMetricScale;
+  colorBy: ColorBy;
+  colorScale: NamedMetricScale;
+  tiling: TreemapTiling;
+  tilingRatio?: number;
+  top?: number;
+  minContribs?: number;
+  minArea?: number;
+  stableLayout?: string;
+  groupBy: GroupBy;
+  group?: Record<string, string[]>;
+  theme?: ThemeName | ThemePalette | 'auto';
+  lightTheme?: ThemeName | ThemePalette;
+  darkTheme?: ThemeName | ThemePalette;
+  languageFallback: string;
+  header?: string;
+  legend?: boolean;
+  footer?: boolean;
+  label: string;
+  minStars: number;
+  hideOwners: string[];
+  locale: string;
+  avatars?: string | boolean;
+  avatarMinSize: number;
+  memberBreakdown: MemberBreakdown;
+  heatStops?: string[];
+  heatInterpolation: ColorInterpolation;
+  heatBuckets?: number;
+  fontFile?: string;
+  fontMode: FontMode;
+  accessible?: boolean;
+  minContrast: number;
+  cacheDir: string;
+  cache: boolean;
+  refresh?: boolean;
+  timeout: number;
+  githubBaseUrl: string;
+  waitForReset?: boolean;
+  quiet?: boolean;
+  verbose?: boolean;
+}
+
+// Merged options of one output; commander's defaults fill in these
+type Run = ConfigFileOptions &
+  Required<
+    Pick<
+      ConfigFileOptions,
+      | 'width'
+      | 'height'
+      | 'scale'
+      | 'contributionKinds'
+      | 'sizeBy'
+      | 'sizeScale'
+      | 'colorBy'
+      | 'colorScale'
+      | 'tiling'
+      | 'groupBy'
+      | 'fontMode'
+      | 'timeoutMs'
+      | 'githubBaseUrl'
+      | 'cache'
+      | 'config'
+    >
+  >;
+
+// Settings that change what is fetched; outputs agreeing on all of them share one fetch
+const FETCH_OPTIONS: Array<keyof ConfigFileOptions> = [
+  'username',
+  'members',
+  'org',
+  'team',
+  'excludeRepos',
+  'excludeOwners',
+  'timeoutMs',
+  'githubBaseUrl',
+  'contributionKinds',
+  'contributionWeights',
+  'cache',
+  'refresh',
+  'waitForReset',
+  'since',
+  'until',
+  'lastDays',
+  'year',
+];
+
+// CLI option values in config file terms, for the options `include` picks
+function cliConfigOptions(options: CliOptions, include: (key: keyof CliOptions) => boolean): ConfigFileOptions {
+  const pick = <K extends keyof CliOptions>(key: K): CliOptions[K] | undefined => (include(key) ? options[key] : undefined);
+  // Defaults arrive unparsed (parser ensures array or empty otherwise)
+  const list = (key: 'excludeRepos' | 'excludeOwners') => {
+    const value = pick(key);
+    return Array.isArray(value) ? value : value === undefined ? undefined : parseList(String(value));
+  };
+
+  return {
+    username: pick('username'),
+    members: pick('members'),
+    org: pick('org'),
+    team: pick('team'),
+    width: pick('width'),
+    height: pick('height'),
+    excludeRepos: list('excludeRepos'),
+    excludeOwners: list('excludeOwners'),
+    filter: {
+      include: pick('include'),
+      exclude: pick('exclude'),
+      minStars: pick('minRepoStars'),
+      includeOwn: pick('includeOwn'),
+      includeForks: pick('includeForks'),
+      includeArchived: pick('archived'),
+      includePrivate: pick('private'),
+      languages: pick('language'),
+      excludeLanguages: pick('excludeLanguage'),
+    },
+    timeoutMs: pick('timeout'),
+    githubBaseUrl: pick('githubBaseUrl'),
+    contributionKinds: pick('contributions'),
+    contributionWeights: pick('weights'),
+    cache: include('cache') || include('cacheDir') ? options.cache && options.cacheDir : undefined,
+    refresh: pick('refresh'),
+    waitForReset: pick('waitForReset'),
+    since: pick('since'),
+    until: pick('until'),
+    lastDays: pick('lastDays'),
+    year: pick('year'),
+    sizeBy: pick('sizeBy'),
+    sizeScale: pick('sizeScale'),
+    colorBy: pick('colorBy'),
+    colorScale: pick('colorScale'),
+    tiling: pick('tiling'),
+    tilingRatio: pick('tilingRatio'),
+    groupBy: pick('groupBy'),
+    groups: pick('group'),
+    maxRepos: pick('top'),
+    minContribs: pick('minContribs'),
+    minArea: pick('minArea'),
+    theme: pick('theme'),
+    lightTheme: pick('lightTheme'),
+    darkTheme: pick('darkTheme'),
+    fontFile: pick('fontFile'),
+    fontMode: pick('fontMode'),
+    avatars: pick('avatars'),
+    config: {
+      heatStops: pick('heatStops'),
+      heatInterpolation: pick('heatInterpolation'),
+      heatBuckets: pick('heatBuckets'),
+      languageFallback: pick('languageFallback'),
+      header: pick('header'),
+      legend: pick('legend'),
+      footer: pick('footer'),
+      labelTemplate: pick('label'),
+      minStars: pick('minStars'),
+      hideOwners: pick('hideOwners'),
+      locale: pick('locale'),
+      accessible: pick('accessible'),
+      minContrast: pick('minContrast'),
+      avatarMinSize: pick('avatarMinSize'),
+      memberBreakdown: pick('memberBreakdown'),
+    },
+    output: pick('output'),
+    format: pick('format'),
+    scale: pick('scale'),
+    stableLayout: pick('stableLayout'),
+  };
+}
+
+// Tile order saved by an earlier run, undefined before the first one
+function readLayoutState(path: string | undefined): LayoutState | undefined {
+  if (!path || !existsSync(path)) return undefined;
+  try {
+    const state = JSON.parse(readFileSync(path, 'utf8')) as LayoutState;
+    if (state?.version !== 1 || !Array.isArray(state.order)) {
+      throw new Error('unsupported layout state');
+    }
+    return state;
+  } catch (error) {
+    console.error(`❌ Could not read layout state from ${path}: ${(error as Error).message}`);
+    process.exit(1);
+  }
+}
+
+function logFetchOptions(run: Run, log: (message: string) => void): void {
+  if (run.team) log(`👥 Team: ${run.team}`);
+  else if (run.org) log(`👥 Organization members: ${run.org}`);
+  else if (run.members?.length) log(`👥 Members: ${run.members.join(', ')}`);
+  else if (run.username) log(`👤 Username: ${run.username}`);
+  else log('👤 Username: auto-detecting from token...');
+
+  if (run.excludeRepos?.length) log(`🚫 Excluding repos: ${run.excludeRepos.join(', ')}`);
+  if (run.excludeOwners?.length) log(`🚫 Excluding owners: ${run.excludeOwners.join(', ')}`);
+
+  log(`🧮 Counting: ${run.contributionKinds.join(', ')}`);
+  if (run.contributionWeights) {
+    const weights = Object.entries(run.contributionWeights).map(([k, w]) => `${k}=${w}`);
+    log(`⚖️ Weights: ${weights.join(', ')}`);
+  }
+
+  if (run.year) log(`📅 Year: ${run.year}`);
+  else if (run.lastDays) log(`📅 Last ${run.lastDays} days`);
+  else if (run.since || run.until) {
+    log(`📅 Window: ${run.since ?? 'beginning'} → ${run.until ?? 'now'}`);
+  }
+
+  if (!run.cache) log('🗄️ Cache: off');
+  else log(`🗄️ Cache: ${run.cache}${run.refresh ? ' (refreshing)' : ''}`);
+  if (run.timeoutMs) log(`⏱️ Timeout: ${run.timeoutMs}ms`);
+  if (run.githubBaseUrl !== DEFAULT_GITHUB_CONFIG.baseUrl) log(`🌐 GitHub API: ${run.githubBaseUrl}`);
+}
+
+function logFilterOptions(run: Run, log: (message: string) => void): void {
+  const { filter = {} } = run;
+  if (filter.include?.length) log(`🔎 Including: ${filter.include.join(', ')}`);
+  if (filter.exclude?.length) log(`🚫 Excluding: ${filter.exclude.join(', ')}`);
+  const kept = [
+    filter.minStars && `≥ ${filter.minStars} stars`,
+    filter.includeOwn && 'own repos',
+    filter.includeForks && 'forks',
+    filter.includeArchived === false && 'no archived',
+    filter.includePrivate === false && 'no private',
+    filter.languages?.length && `languages ${filter.languages.join(', ')}`,
+    filter.excludeLanguages?.length && `not ${filter.excludeLanguages.join(', ')}`,
+  ].filter(Boolean);
+  if (kept.length > 0) log(`🔎 Repos: ${kept.join(', ')}`);
+}
+
+function logRenderOptions(run: Run, format: OutputFormat, previousLayout: LayoutState | undefined, log: (message: string) => void): void {
+  const { config } = run;
+  if (run.width !== DEFAULT_CONFIG.width || run.height !== DEFAULT_CONFIG.height) {
+    log(`📏 Dimensions: ${run.width}x${run.height}px`);
+  }
+  if (run.tiling !== DEFAULT_LAYOUT_OPTIONS.tiling) log(`🧩 Tiling: ${run.tiling}`);
+  if (run.stableLayout) {
+    log(`📌 Stable layout: ${run.stableLayout}${previousLayout ? '' : ' (new)'}`);
+  }
+  if (run.groups) {
+    const groups = Object.entries(run.groups).map(([name, members]) => `${name}=${members.join(',')}`);
+    log(`🗂️ Groups: ${groups.join('; ')}`);
+  } else if (run.groupBy !== 'none') log(`🗂️ Grouping by: ${run.groupBy}`);
+  if (run.theme) {
+    log(`🎨 Theme: ${typeof run.theme === 'string' ? run.theme : 'custom'}`);
+  }
+  if (config.heatStops) log(`🌡️ Heat stops: ${config.heatStops.join(', ')}`);
+  if (config.heatInterpolation !== DEFAULT_CONFIG.heatInterpolation || config.heatBuckets) {
+    log(`🌡️ Heat: ${config.heatInterpolation}${config.heatBuckets ? `, ${config.heatBuckets} levels` : ''}`);
+  }
+  if (config.labelTemplate !== DEFAULT_CONFIG.labelTemplate) log(`🏷️ Label: ${JSON.stringify(config.labelTemplate)}`);
+  if (config.locale !== DEFAULT_CONFIG.locale) log(`🌍 Locale: ${config.locale}`);
+  if (run.avatars) {
+    log(`🧑 Avatars: ${run.avatars === true ? 'GitHub' : run.avatars}, tiles ≥ ${config.avatarMinSize}px`);
+  }
+  if (run.fontFile) log(`🔤 Font metrics: ${run.fontFile}`);
+  if (run.fontMode !== DEFAULT_CONFIG.fontMode) log(`🔤 Font mode: ${run.fontMode}`);
+  if (config.accessible) log(`♿ Accessible output, text contrast ≥ ${config.minContrast}:1`);
+  const color = run.colorBy === 'language' ? 'language' : `${run.colorScale}(${run.colorBy})`;
+  log(`📐 Size: ${run.sizeScale}(${run.sizeBy}), color: ${color}`);
+  const cutoffs = [
+    run.maxRepos && `top ${run.maxRepos}`,
+    run.minContribs && `≥ ${run.minContribs} contributions`,
+    run.minArea && `≥ ${run.minArea}px²`,
+  ].filter(Boolean);
+  if (cutoffs.length > 0) log(`✂️ Long tail: ${cutoffs.join(', ')}`);
+
+  if (run.output) log(`📁 Output file: ${run.output}`);
+  else log('📁 Output: stdout');
+  if (format === 'html' || format === 'json') log(`🖼️ Format: ${format}`);
+  else if (format !== 'svg') log(`🖼️ Format: ${format} @${run.scale}x`);
+}
+
+
 async function main() {
   const program = new Command();
 
@@ -29,9 +519,18 @@ async function main() {
     .name('github-contribution-treemap-generator')
     .description('GitHub contribution treemap SVG generator')
     .version(VERSION)
+    .addOption(new Option('-c, --config <file>', `Config file with settings and profiles (default: ${CONFIG_FILE.NAMES.join(' or ')} in the working directory)`).env('TREEMAP_CONFIG'))
+    .addOption(new Option('--no-config', 'Ignore config files in the working directory'))
+    .addOption(new Option('--profile <names>', 'Comma-separated config file profiles to render, one output each').env('PROFILE').argParser(parseList))
     .addOption(new Option('-t, --token <token>', 'GitHub personal access token').env('GITHUB_TOKEN'))
-    .addOption(new Option('-u, --username <username>', 'GitHub username (auto-detected if not provided)').env('GITHUB_USERNAME'))
+    .addOption(new Option('-u, --username <username>', 'GitHub username (auto-detected if not provided)').env('GITHUB_USERNAME').conflicts(['members', 'org', 'team']))
+    .addOption(new Option('--members <logins>', 'Comma-separated users whose contributions are combined into one team treemap').env('MEMBERS').argParser(parseList).conflicts(['org', 'team']))
+    .addOption(new Option('--org <org>', "Team treemap of an organization's members").env('ORG').conflicts('team'))
+    .addOption(new Option('--team <org/team>', "Team treemap of an organization team's members").env('TEAM').argParser(parseTeamArg))
     .addOption(new Option('-o, --output <file>', 'Output file path (default: stdout)'))
+    .addOption(new Option('-i, --input <file>', 'Render from data saved with --format json instead of fetching from GitHub').env('INPUT'))
+    .addOption(new Option('-f, --format <format>', 'Output format (default: from the --output extension, else svg)').env('FORMAT').choices(OUTPUT_FORMATS))
+    .addOption(new Option('--scale <factor>', 'Pixel density for png, webp and pdf output, e.g. 2 for HiDPI').env('SCALE').default(OUTPUT.DEFAULT_SCALE).argParser(parsePositiveNumber))
     .addOption(
       new Option('-w, --width <pixels>', 'SVG width in pixels')
         .env('WIDTH')
@@ -46,6 +545,76 @@ async function main() {
     )
     .addOption(new Option('--exclude-repos <repos>', 'Comma-separated list of repos to exclude (default: none)').env('EXCLUDE_REPOS').default('').argParser(parseList))
     .addOption(new Option('--exclude-owners <owners>', 'Comma-separated list of owners to hide (default: none)').env('EXCLUDE_OWNERS').default('').argParser(parseList))
+    .addOption(new Option('--include <pattern>', 'Only repos matching owner/name globs (* within, ** across segments), bare names or /regex/; repeatable').env('INCLUDE').argParser(collectPatterns))
+    .addOption(new Option('--exclude <pattern>', 'Leave out repos matching these patterns; repeatable').env('EXCLUDE').argParser(collectPatterns))
+    .addOption(new Option('--min-repo-stars <n>', 'Leave out repos with fewer stars').env('MIN_REPO_STARS').argParser(parseNonNegativeInt))
+    .addOption(new Option('--include-own', 'Keep repos owned by you (or a team member)').env('INCLUDE_OWN'))
+    .addOption(new Option('--include-forks', 'Keep forks').env('INCLUDE_FORKS'))
+    .addOption(new Option('--no-archived', 'Leave out archived repos').env('NO_ARCHIVED'))
+    .addOption(new Option('--no-private', 'Leave out private repos').env('NO_PRIVATE'))
+    .addOption(new Option('--language <names>', 'Only repos with these comma-separated primary languages').env('LANGUAGES').argParser(parseList))
+    .addOption(new Option('--exclude-language <names>', 'Leave out repos with these comma-separated primary languages').env('EXCLUDE_LANGUAGES').argParser(parseList))
+    .addOption(
+      new Option('--contributions <kinds>', `Comma-separated contribution kinds to count (${CONTRIBUTION_KINDS.join(', ')})`)
+        .env('CONTRIBUTION_KINDS')
+        .default(DEFAULT_CONTRIBUTION_KINDS, DEFAULT_CONTRIBUTION_KINDS.join(','))
+        .argParser(parseContributionKinds)
+    )
+    .addOption(new Option('--weights <weights>', 'Per-kind weights for the heat score, e.g. reviews=0.5,commits=0.1').env('CONTRIBUTION_WEIGHTS').argParser(parseWeights))
+    .addOption(new Option('--since <date>', 'Only count contributions on or after this date (YYYY-MM-DD)').env('SINCE').argParser(parseDateArg))
+    .addOption(new Option('--until <date>', 'Only count contributions on or before this date (YYYY-MM-DD)').env('UNTIL').argParser(parseDateArg))
+    .addOption(
+      new Option('--last-days <days>', 'Only count contributions from the last N days')
+        .env('LAST_DAYS')
+        .argParser(parsePositiveInt)
+        .conflicts('since')
+    )
+    .addOption(
+      new Option('--year <year>', 'Only count contributions from this calendar year')
+        .env('YEAR')
+        .argParser(parsePositiveInt)
+        .conflicts(['since', 'until', 'lastDays'])
+    )
+    .addOption(new Option('--size-by <metric>', 'Metric that sets tile area').env('SIZE_BY').choices(REPOSITORY_METRICS).default(DEFAULT_LAYOUT_OPTIONS.sizeBy))
+    .addOption(new Option('--size-scale <scale>', 'Scale applied to the size metric').env('SIZE_SCALE').choices(METRIC_SCALES).default(DEFAULT_LAYOUT_OPTIONS.sizeScale))
+    .addOption(new Option('--color-by <metric>', "Metric that sets tile heat color, or 'language' for each repo's language color").env('COLOR_BY').choices(COLOR_BY_MODES).default(DEFAULT_CONFIG.colorBy))
+    .addOption(new Option('--color-scale <scale>', 'Scale applied to the color metric').env('COLOR_SCALE').choices(METRIC_SCALES).default(DEFAULT_CONFIG.colorScale))
+    .addOption(new Option('--tiling <algorithm>', 'Treemap tiling algorithm').env('TILING').choices(TREEMAP_TILINGS).default(DEFAULT_LAYOUT_OPTIONS.tiling))
+    .addOption(new Option('--tiling-ratio <ratio>', 'Target aspect ratio for squarify/resquarify (default: golden ratio)').env('TILING_RATIO').argParser(parsePositiveNumber))
+    .addOption(new Option('--top <n>', 'Keep the N largest tiles and collapse the rest into one "+N more repos" tile').env('TOP').argParser(parsePositiveInt))
+    .addOption(new Option('--min-contribs <n>', 'Collapse repos with fewer contributions into the "more repos" tile').env('MIN_CONTRIBS').argParser(parsePositiveInt))
+    .addOption(new Option('--min-area <px>', 'Collapse repos whose tile would be smaller than this many square pixels').env('MIN_AREA').argParser(parsePositiveNumber))
+    .addOption(new Option('--stable-layout <file>', 'Keep tile order stable across runs using this JSON state file').env('STABLE_LAYOUT'))
+    .addOption(new Option('--group-by <mode>', 'Nest repos under their owner or under --group groups').env('GROUP_BY').choices(GROUP_BY_MODES).default(DEFAULT_LAYOUT_OPTIONS.groupBy))
+    .addOption(new Option('--group <name=members>', 'Define a custom group of owners or owner/repo entries (repeatable)').argParser(collectGroup))
+    .addOption(
+      new Option('--theme <theme>', `Color theme: ${THEME_NAMES.join(', ')}, auto (light/dark switching) or a JSON theme file`)
+        .env('THEME')
+        .argParser((value: string) => (value === 'auto' ? value : parseThemeArg(value)))
+    )
+    .addOption(new Option('--light-theme <theme>', 'Light palette for --theme auto (name or JSON file)').env('LIGHT_THEME').argParser(parseThemeArg))
+    .addOption(new Option('--dark-theme <theme>', 'Dark palette for --theme auto (name or JSON file)').env('DARK_THEME').argParser(parseThemeArg))
+    .addOption(new Option('--language-fallback <color>', 'Tile color for repos without a known language with --color-by language').env('LANGUAGE_FALLBACK').default(DEFAULT_CONFIG.languageFallback).argParser(parseColorArg))
+    .addOption(new Option('--header [text]', `Title line above the tiles; {username} is replaced (default text: "${CHROME.DEFAULT_HEADER}")`).env('HEADER').preset(CHROME.DEFAULT_HEADER))
+    .addOption(new Option('--legend', 'Color legend below the tiles: top languages, or the heat gradient with its range').env('LEGEND'))
+    .addOption(new Option('--footer', 'Repository and contribution totals with the generation date below the tiles').env('FOOTER'))
+    .addOption(new Option('--label <template>', `Tile text, one line per \\n, with {field} placeholders: ${LABEL_FIELDS.join(', ')}; wrap a line in ** to make it bold`).env('LABEL').default(DEFAULT_CONFIG.labelTemplate, JSON.stringify(DEFAULT_CONFIG.labelTemplate)).argParser(parseLabelArg))
+    .addOption(new Option('--min-stars <n>', 'Stars a repo needs before {stars} is shown').env('MIN_STARS').default(DEFAULT_CONFIG.minStars).argParser(parseNonNegativeInt))
+    .addOption(new Option('--hide-owners <owners>', 'Comma-separated owners (e.g. your own orgs) left out of {owner}').env('HIDE_OWNERS').default([]).argParser(parseList))
+    .addOption(new Option('--locale <tag>', 'Locale for numbers on tiles, legend and footer').env('LOCALE').default(DEFAULT_CONFIG.locale).argParser(parseLocaleArg))
+    .addOption(new Option('--avatars [dir]', 'Owner avatars on large tiles, fetched from GitHub or read from <dir>/<owner>.png (or .jpg, .gif, .webp, .svg)').env('AVATARS').argParser(parseAvatarsArg))
+    .addOption(new Option('--avatar-min-size <px>', 'Width and height a tile needs to show an avatar').env('AVATAR_MIN_SIZE').default(DEFAULT_CONFIG.avatarMinSize).argParser(parsePositiveInt))
+    .addOption(new Option('--member-breakdown <mode>', 'Draw each team tile\'s members as sub-tiles below the label or as color bands along the bottom').env('MEMBER_BREAKDOWN').choices(MEMBER_BREAKDOWNS).default(DEFAULT_CONFIG.memberBreakdown))
+    .addOption(new Option('--heat-stops <colors>', 'Comma-separated heat gradient colors, any CSS color syntax').env('HEAT_STOPS').argParser(parseColorList))
+    .addOption(new Option('--heat-interpolation <space>', 'Color space for the heat gradient').env('HEAT_INTERPOLATION').choices(COLOR_INTERPOLATIONS).default(DEFAULT_CONFIG.heatInterpolation))
+    .addOption(new Option('--heat-buckets <n>', 'Quantize the heat gradient into N levels (e.g. 5 like the contribution calendar)').env('HEAT_BUCKETS').argParser(parsePositiveInt))
+    .addOption(new Option('--font-file <path>', 'TTF/OTF/WOFF font used to measure label widths').env('FONT_FILE'))
+    .addOption(new Option('--font-mode <mode>', 'Reference the font by name, embed a subset of --font-file, or draw labels as paths').env('FONT_MODE').choices(FONT_MODES).default(DEFAULT_CONFIG.fontMode))
+    .addOption(new Option('--accessible', 'Add a title, summary and ARIA labels, and raise text contrast on every tile').env('ACCESSIBLE'))
+    .addOption(new Option('--min-contrast <ratio>', 'WCAG contrast ratio text must meet with --accessible').env('MIN_CONTRAST').default(DEFAULT_CONFIG.minContrast).argParser(parseContrastRatio))
+    .addOption(new Option('--cache-dir <dir>', 'Where fetched contributions are cached between runs').env('CACHE_DIR').default(defaultCacheDir()))
+    .addOption(new Option('--no-cache', 'Fetch everything from GitHub and do not read or write the cache').env('NO_CACHE'))
+    .addOption(new Option('--refresh', 'Ignore cached contributions and fetch them all again, then update the cache').env('REFRESH'))
     .addOption(
       new Option('--timeout <ms>', 'GitHub API timeout in milliseconds')
         .env('GITHUB_TIMEOUT_MS')
@@ -53,84 +622,169 @@ async function main() {
         .argParser(parsePositiveInt)
     )
     .addOption(new Option('--github-base-url <url>', 'GitHub GraphQL API base URL').env('GITHUB_BASE_URL').default(DEFAULT_GITHUB_CONFIG.baseUrl))
+    .addOption(new Option('--wait-for-reset', 'Wait for the GitHub rate limit to reset instead of failing when it runs out').env('WAIT_FOR_RESET'))
     .addOption(new Option('-q, --quiet', 'Suppress non-error logs').env('QUIET'))
+    .addOption(new Option('-v, --verbose', 'Log each GitHub query with its rate-limit cost, and the points used in total').env('VERBOSE'))
     .addHelpText(
       'after',
-      `\nEnvironment variables:\n  GITHUB_TOKEN           Required unless --token is provided\n  GITHUB_USERNAME        Username, otherwise auto-detected from token\n  EXCLUDE_REPOS          Comma-separated repos to exclude (default: none)\n  EXCLUDE_OWNERS            Comma-separated owners to hide (default: none)\n  WIDTH                  SVG width in pixels (default ${DEFAULT_CONFIG.width})\n  HEIGHT                 SVG height in pixels (default ${DEFAULT_CONFIG.height})\n  GITHUB_TIMEOUT_MS      GitHub API timeout in ms (default ${DEFAULT_GITHUB_CONFIG.timeoutMs})\n  GITHUB_BASE_URL        GitHub GraphQL API base URL (default ${DEFAULT_GITHUB_CONFIG.baseUrl})\n  QUIET=0                Suppress non-error logs\n`
+      `\nEnvironment variables:\n  TREEMAP_CONFIG         Config file (default ${CONFIG_FILE.NAMES.join(' or ')})\n  PROFILE                Comma-separated config file profiles to render\n  GITHUB_TOKEN           Required unless --token is provided\n  GITHUB_USERNAME        Username, otherwise auto-detected from token\n  MEMBERS                Comma-separated users combined into a team treemap\n  ORG                    Organization whose members make up a team treemap\n  TEAM                   org/team whose members make up a team treemap\n  EXCLUDE_REPOS          Comma-separated repos to exclude (default: none)\n  EXCLUDE_OWNERS            Comma-separated owners to hide (default: none)\n  INCLUDE                Comma-separated patterns repos must match\n  EXCLUDE                Comma-separated patterns of repos to leave out\n  MIN_REPO_STARS         Stars a repo needs to get a tile\n  INCLUDE_OWN            Keep your own repos\n  INCLUDE_FORKS          Keep forks\n  NO_ARCHIVED            Leave out archived repos\n  NO_PRIVATE             Leave out private repos\n  LANGUAGES              Comma-separated primary languages to keep\n  EXCLUDE_LANGUAGES      Comma-separated primary languages to leave out\n  CONTRIBUTION_KINDS     Comma-separated contribution kinds (default ${DEFAULT_CONTRIBUTION_KINDS.join(',')})\n  CONTRIBUTION_WEIGHTS   Per-kind heat weights, e.g. reviews=0.5\n  SINCE                  Window start date (default: all time)\n  UNTIL                  Window end date (default: now)\n  LAST_DAYS              Window of the last N days\n  YEAR                   Window of one calendar year\n  SIZE_BY                Tile area metric: stars, contribs or score (default ${DEFAULT_LAYOUT_OPTIONS.sizeBy})\n  SIZE_SCALE             Tile area scale: linear, sqrt or log (default ${DEFAULT_LAYOUT_OPTIONS.sizeScale})\n  COLOR_BY               Heat color metric: stars, contribs or score, or language (default ${DEFAULT_CONFIG.colorBy})\n  COLOR_SCALE            Heat color scale: linear, sqrt or log (default ${DEFAULT_CONFIG.colorScale})\n  TILING                 Tiling algorithm (default ${DEFAULT_LAYOUT_OPTIONS.tiling})\n  TILING_RATIO           Aspect ratio for squarify/resquarify\n  TOP                    Number of repos to keep before collapsing the rest\n  MIN_CONTRIBS           Contributions a repo needs to keep its own tile\n  MIN_AREA               Square pixels a tile needs to stay separate\n  STABLE_LAYOUT          Layout state file for stable tile order\n  GROUP_BY               Grouping mode: none, owner or custom (default ${DEFAULT_LAYOUT_OPTIONS.groupBy})\n  THEME                  Theme name, auto, or JSON theme file (default: default)\n  LIGHT_THEME            Light palette for THEME=auto (default github-light)\n  DARK_THEME             Dark palette for THEME=auto (default github-dark)\n  LANGUAGE_FALLBACK      Tile color for repos without a known language (default ${DEFAULT_CONFIG.languageFallback})\n  HEADER                 Title line above the tiles\n  LEGEND                 Color legend below the tiles\n  FOOTER                 Totals and generation date below the tiles\n  LABEL                  Tile label template, lines separated by \\n\n  MIN_STARS              Stars a repo needs before {stars} is shown (default ${DEFAULT_CONFIG.minStars})\n  HIDE_OWNERS            Comma-separated owners left out of {owner}\n  LOCALE                 Locale for numbers (default ${DEFAULT_CONFIG.locale})\n  AVATARS                Owner avatars on large tiles: 1/true or 0/false, or a directory to read them from\n  AVATAR_MIN_SIZE        Tile size in px needed for an avatar (default ${DEFAULT_CONFIG.avatarMinSize})\n  MEMBER_BREAKDOWN       Team tiles' members: none, tiles or bands (default ${DEFAULT_CONFIG.memberBreakdown})\n  HEAT_STOPS             Comma-separated heat gradient colors\n  HEAT_INTERPOLATION     Heat gradient color space: rgb, oklab or hcl (default ${DEFAULT_CONFIG.heatInterpolation})\n  HEAT_BUCKETS           Number of discrete heat levels\n  FONT_FILE              Font file used to measure label widths\n  FONT_MODE              Label font mode: reference, embed or paths (default ${DEFAULT_CONFIG.fontMode})\n  INPUT                  Saved JSON data to render instead of fetching\n  FORMAT                 Output format: svg, html, png, webp, pdf or json (default: from output extension)\n  SCALE                  Pixel density for raster output (default ${OUTPUT.DEFAULT_SCALE})\n  ACCESSIBLE             Accessible output with contrast-checked text\n  MIN_CONTRAST           Text contrast ratio for ACCESSIBLE (default ${DEFAULT_CONFIG.minContrast})\n  CACHE_DIR              Contribution cache directory (default ~/.cache/${CACHE.DIR_NAME})\n  NO_CACHE               Disable the contribution cache\n  REFRESH                Refetch everything and rewrite the cache\n  WIDTH                  SVG width in pixels (default ${DEFAULT_CONFIG.width})\n  HEIGHT                 SVG height in pixels (default ${DEFAULT_CONFIG.height})\n  GITHUB_TIMEOUT_MS      GitHub API timeout in ms (default ${DEFAULT_GITHUB_CONFIG.timeoutMs})\n  GITHUB_BASE_URL        GitHub GraphQL API base URL (default ${DEFAULT_GITHUB_CONFIG.baseUrl})\n  WAIT_FOR_RESET         Wait for the rate limit to reset instead of failing\n  QUIET=0                Suppress non-error logs\n  VERBOSE                Log GitHub queries and rate-limit points used\n`
     )
     .showHelpAfterError()
     .showSuggestionAfterError();
 
   program.parse();
-  const options = program.opts() as {
-    token?: string;
-    username?: string;
-    output?: string;
-    width: number;
-    height: number;
-    excludeRepos: string[] | string;
-    excludeOwners: string[] | string;
-    timeout: number;
-    githubBaseUrl: string;
-    quiet?: boolean;
-  };
+  const options = program.opts() as CliOptions;
+
+  let input: TreemapData | undefined;
+  if (options.input) {
+    try {
+      input = parseTreemapData(JSON.parse(readFileSync(options.input, 'utf8')));
+    } catch (error) {
+      console.error(`❌ Could not read treemap data from ${options.input}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
+  const configFile = options.config === false ? undefined : (options.config ?? findConfigFile());
+  let outputs: ConfigFileOptions[] = [{}];
+  if (configFile) {
+    try {
+      outputs = resolveConfigOutputs(loadConfigFile(configFile), options.profile);
+    } catch (error) {
+      console.error(`❌ Could not read config file ${configFile}: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  } else if (options.profile) {
+    console.error(`❌ --profile requires a config file (${CONFIG_FILE.NAMES.join(' or ')}, or --config)`);
+    process.exit(1);
+  }
+
+  // Config file settings override the defaults; flags and env vars override the config file
+  const source = (key: string) => program.getOptionValueSource(key);
+  const defaults = cliConfigOptions(options, (key) => source(key) === 'default');
+  const given = cliConfigOptions(options, (key) => source(key) === 'cli' || source(key) === 'env');
+  const runs = outputs.map((output) => mergeConfigOptions(defaults, output, given) as Run);
+
+  if (runs.length > 1 && (given.output || runs.some((run) => !run.output))) {
+    console.error('❌ Several outputs need an output file each, set in the config file rather than with --output');
+    process.exit(1);
+  }
+
+  for (const run of runs) {
+    if (run.fontMode !== 'reference' && !run.fontFile) {
+      console.error(`❌ --font-mode ${run.fontMode} requires --font-file`);
+      process.exit(1);
+    }
+    // Checked before fetching, since labels are only drawn once the data is in
+    if (run.fontMode === 'paths' && run.fontFile) {
+      try {
+        if (loadFontFile(run.fontFile).outlines === 'cff') {
+          console.error(`❌ --font-mode paths needs a TrueType font; ${run.fontFile} has CFF outlines (use --font-mode embed)`);
+          process.exit(1);
+        }
+      } catch (error) {
+        console.error(`❌ Could not read font file ${run.fontFile}: ${(error as Error).message}`);
+        process.exit(1);
+      }
+    }
+  }
 
-  // Normalize arrays (parser ensures array or empty)
-  const excludeRepos: string[] = Array.isArray(options.excludeRepos)
-    ? options.excludeRepos
-    : (options.excludeRepos ? parseList(String(options.excludeRepos)) : []);
-  const excludeOwners: string[] = Array.isArray(options.excludeOwners)
-    ? options.excludeOwners
-    : (options.excludeOwners ? parseList(String(options.excludeOwners)) : []);
+  const previousLayouts = runs.map((run) => readLayoutState(run.stableLayout));
 
-  if (!options.token) {
+  if (!options.token && !input) {
     console.error('❌ GitHub token is required');
     console.error('');
     console.error('Provide it via:');
     console.error('  - CLI option: --token <your_token>');
     console.error('  - Environment variable: GITHUB_TOKEN');
+    console.error('  - Or render saved data with --input <file>');
     console.error('');
     console.error('Run with --help for more information');
     process.exit(1);
   }
 
-  try {
-    if (!options.quiet) console.log('🚀 Generating GitHub contribution treemap...');
+  // Progress goes to stderr whenever stdout carries an image, so piping it stays intact
+  const log = runs.some((run) => !run.output) ? console.error : console.log;
 
+  try {
     if (!options.quiet) {
-      if (options.username) console.log(`👤 Username: ${options.username}`);
-      else console.log('👤 Username: auto-detecting from token...');
+      log('🚀 Generating GitHub contribution treemap...');
+      if (configFile) log(`⚙️ Config: ${configFile}${runs.length > 1 ? `, ${runs.length} outputs` : ''}`);
+      if (input) log(`📦 Input: ${options.input} (${input.username}, fetched ${input.fetchedAt})`);
+    }
+
+    const onWarning = (message: string) => {
+      if (!options.quiet) console.warn(`⚠️ ${message}`);
+    };
 
-      if (options.width !== DEFAULT_CONFIG.width || options.height !== DEFAULT_CONFIG.height) {
-        console.log(`📏 Dimensions: ${options.width}x${options.height}px`);
+    // Fetched data by FETCH_OPTIONS values
+    const fetched = new Map<string, TreemapData>();
+
+    for (const [index, run] of runs.entries()) {
+      const format: OutputFormat = run.format ?? (run.output ? formatFromPath(run.output) : undefined) ?? 'svg';
+      const previousLayout = previousLayouts[index];
+      // Forks are left out while fetching; the rest of the filter applies to the fetched data
+      const fetchKey = JSON.stringify([...FETCH_OPTIONS.map((key) => run[key]), run.filter?.includeForks]);
+
+      if (!options.quiet) {
+        if (runs.length > 1) log(`\n🖼️ Output ${index + 1} of ${runs.length}`);
+        // Fetch options have no effect on saved input
+        if (!input && !fetched.has(fetchKey)) logFetchOptions(run, log);
+        if (!input) logFilterOptions(run, log);
+        logRenderOptions(run, format, previousLayout, log);
       }
 
-      if (excludeRepos.length > 0) console.log(`🚫 Excluding repos: ${excludeRepos.join(', ')}`);
-      if (excludeOwners.length > 0) console.log(`🚫 Excluding owners: ${excludeOwners.join(', ')}`);
+      const renderOptions = {
+        ...run,
+        groupBy: run.groups && run.groupBy === 'none' ? ('custom' as const) : run.groupBy,
+        previousLayout,
+        onWarning,
+        onLayout: (state: LayoutState) => {
+          if (run.stableLayout) writeFileSync(run.stableLayout, JSON.stringify(state, null, 2) + '\n', 'utf8');
+        },
+      };
 
-      if (options.output) console.log(`📁 Output file: ${options.output}`);
-      else console.log('📁 Output: stdout');
+      // --input renders saved data and never contacts GitHub (the token check above ensures one of the two)
+      let treemapData = input ?? fetched.get(fetchKey);
+      if (!treemapData) {
+        treemapData = await fetchTreemapData(options.token as string, {
+          ...renderOptions,
+          // Everything the fetch returns, so outputs with other filters can share it
+          filter: { includeOwn: true, includeForks: run.filter?.includeForks },
+          // stderr, so verbose runs can still write the SVG to stdout
+          onDebug: options.verbose ? (message) => console.error(`🔍 ${message}`) : undefined,
+        });
+        fetched.set(fetchKey, treemapData);
+      }
+      if (!input) {
+        const keep = createRepositoryFilter(run.filter ?? {});
+        treemapData = { ...treemapData, repositories: treemapData.repositories.filter(keep) };
+      }
 
-      if (options.timeout) console.log(`⏱️ Timeout: ${options.timeout}ms`);
-      if (options.githubBaseUrl !== DEFAULT_GITHUB_CONFIG.baseUrl) console.log(`🌐 GitHub API: ${options.githubBaseUrl}`);
-    }
+      let data: string | Uint8Array;
+      if (format === 'json') {
+        data = JSON.stringify(layoutTreemapData(treemapData, renderOptions), null, 2) + '\n';
+      } else {
+        // Laid out once for both the avatars, which only large tiles get, and the image
+        const layout = layoutTreemap(treemapData, renderOptions);
+        const avatars = run.avatars ? await loadTreemapAvatars(treemapData, { ...renderOptions, layout, githubBaseUrl: run.githubBaseUrl }) : undefined;
+        const svg = renderTreemapData(treemapData, { ...renderOptions, layout, config: { ...run.config, avatars } });
+        data =
+          format === 'svg'
+            ? svg
+            : await renderTo(svg, format, {
+                scale: run.scale,
+                fontFiles: run.fontFile ? [run.fontFile] : [],
+              });
+      }
 
-    const svg = await generateContributionTreemap(options.token, {
-      username: options.username,
-      width: options.width,
-      height: options.height,
-      excludeRepos,
-      excludeOwners,
-      timeoutMs: options.timeout,
-      githubBaseUrl: options.githubBaseUrl,
-    });
-
-    if (options.output) {
-      writeFileSync(options.output, svg, 'utf8');
-      if (!options.quiet) console.log(`\n✅ Treemap saved to: ${options.output}`);
-    } else {
-      process.stdout.write(svg);
-      if (!options.quiet) console.log('\n✅ Treemap generated successfully!');
+      if (run.output) {
+        writeFileSync(run.output, data, typeof data === 'string' ? 'utf8' : undefined);
+        if (!options.quiet) log(`\n✅ Treemap saved to: ${run.output}`);
+      } else {
+        process.stdout.write(data);
+        if (!options.quiet) log('\n✅ Treemap generated successfully!');
+      }
     }
   } catch (error) {
     const err = error as unknown as { name?: string; message?: string };
@@ -0,0 +1,371 @@
+import type { ColorInterpolation } from './types';
+
+export interface Rgba {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export const COLOR_INTERPOLATIONS: readonly ColorInterpolation[] = ['rgb', 'oklab', 'hcl'];
+
+// CSS Color Module Level 4 named colors
+// prettier-ignore
+const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#f0f8ff', antiquewhite: '#faebd7', aqua: '#00ffff', aquamarine: '#7fffd4',
+  azure: '#f0ffff', beige: '#f5f5dc', bisque: '#ffe4c4', black: '#000000',
+  blanchedalmond: '#ffebcd', blue: '#0000ff', blueviolet: '#8a2be2', brown: '#a52a2a',
+  burlywood: '#deb887', cadetblue: '#5f9ea0', chartreuse: '#7fff00', chocolate: '#d2691e',
+  coral: '#ff7f50', cornflowerblue: '#6495ed', cornsilk: '#fff8dc', crimson: '#dc143c',
+  cyan: '#00ffff', darkblue: '#00008b', darkcyan: '#008b8b', darkgoldenrod: '#b8860b',
+  darkgray: '#a9a9a9', darkgreen: '#006400', darkgrey: '#a9a9a9', darkkhaki: '#bdb76b',
+  darkmagenta: '#8b008b', darkolivegreen: '#556b2f', darkorange: '#ff8c00',
+  darkorchid: '#9932cc', darkred: '#8b0000', darksalmon: '#e9967a', darkseagreen: '#8fbc8f',
+  darkslateblue: '#483d8b', darkslategray: '#2f4f4f', darkslategrey: '#2f4f4f',
+  darkturquoise: '#00ced1', darkviolet: '#9400d3', deeppink: '#ff1493',
+  deepskyblue: '#00bfff', dimgray: '#696969', dimgrey: '#696969', dodgerblue: '#1e90ff',
+  firebrick: '#b22222', floralwhite: '#fffaf0', forestgreen: '#228b22', fuchsia: '#ff00ff',
+  gainsboro: '#dcdcdc', ghostwhite: '#f8f8ff', gold: '#ffd700', goldenrod: '#daa520',
+  gray: '#808080', green: '#008000', greenyellow: '#adff2f', grey: '#808080',
+  honeydew: '#f0fff0', hotpink: '#ff69b4', indianred: '#cd5c5c', indigo: '#4b0082',
+  ivory: '#fffff0', khaki: '#f0e68c', lavender: '#e6e6fa', lavenderblush: '#fff0f5',
+  lawngreen: '#7cfc00', lemonchiffon: '#fffacd', lightblue: '#add8e6', lightcoral: '#f08080',
+  lightcyan: '#e0ffff', lightgoldenrodyellow: '#fafad2', lightgray: '#d3d3d3',
+  lightgreen: '#90ee90', lightgrey: '#d3d3d3', lightpink: '#ffb6c1', lightsalmon: '#ffa07a',
+  lightseagreen: '#20b2aa', lightskyblue: '#87cefa', lightslategray: '#778899',
+  lightslategrey: '#778899', lightsteelblue: '#b0c4de', lightyellow: '#ffffe0',
+  lime: '#00ff00', limegreen: '#32cd32', linen: '#faf0e6', magenta: '#ff00ff',
+  maroon: '#800000', mediumaquamarine: '#66cdaa', mediumblue: '#0000cd',
+  mediumorchid: '#ba55d3', mediumpurple: '#9370db', mediumseagreen: '#3cb371',
+  mediumslateblue: '#7b68ee', mediumspringgreen: '#00fa9a', mediumturquoise: '#48d1cc',
+  mediumvioletred: '#c71585', midnightblue: '#191970', mintcream: '#f5fffa',
+  mistyrose: '#ffe4e1', moccasin: '#ffe4b5', navajowhite: '#ffdead', navy: '#000080',
+  oldlace: '#fdf5e6', olive: '#808000', olivedrab: '#6b8e23', orange: '#ffa500',
+  orangered: '#ff4500', orchid: '#da70d6', palegoldenrod: '#eee8aa', palegreen: '#98fb98',
+  paleturquoise: '#afeeee', palevioletred: '#db7093', papayawhip: '#ffefd5',
+  peachpuff: '#ffdab9', peru: '#cd853f', pink: '#ffc0cb', plum: '#dda0dd',
+  powderblue: '#b0e0e6', purple: '#800080', rebeccapurple: '#663399', red: '#ff0000',
+  rosybrown: '#bc8f8f', royalblue: '#4169e1', saddlebrown: '#8b4513', salmon: '#fa8072',
+  sandybrown: '#f4a460', seagreen: '#2e8b57', seashell: '#fff5ee', sienna: '#a0522d',
+  silver: '#c0c0c0', skyblue: '#87ceeb', slateblue: '#6a5acd', slategray: '#708090',
+  slategrey: '#708090', snow: '#fffafa', springgreen: '#00ff7f', steelblue: '#4682b4',
+  tan: '#d2b48c', teal: '#008080', thistle: '#d8bfd8', tomato: '#ff6347',
+  turquoise: '#40e0d0', violet: '#ee82ee', wheat: '#f5deb3', white: '#ffffff',
+  whitesmoke: '#f5f5f5', yellow: '#ffff00', yellowgreen: '#9acd32',
+};
+
+const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+// "50%" -> 0.5 * percentScale, "128" -> 128
+function parseComponent(value: string, percentScale: number): number {
+  const n = parseFloat(value);
+  if (!Number.isFinite(n)) throw new Error(`Invalid color component: ${value}`);
+  return value.endsWith('%') ? (n / 100) * percentScale : n;
+}
+
+function parseAlpha(value: string | undefined): number {
+  return value === undefined ? 1 : clamp(parseComponent(value, 1), 0, 1);
+}
+
+function parseHue(value: string): number {
+  const n = parseFloat(value);
+  if (!Number.isFinite(n)) throw new Error(`Invalid hue: ${value}`);
+  if (value.endsWith('turn')) return n * 360;
+  if (value.endsWith('grad')) return n * 0.9;
+  if (value.endsWith('rad')) return (n * 180) / Math.PI;
+  return n;
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 360;
+  const k = (n: number) => (n + hue * 12) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0) * 255, f(8) * 255, f(4) * 255];
+}
+
+/**
+ * Parse any common CSS color: #rgb, #rgba, #rrggbb, #rrggbbaa, rgb()/rgba(), hsl()/hsla()
+ * (comma or space separated, with optional "/ alpha"), named colors and "transparent".
+ */
+export function parseColor(input: string): Rgba {
+  const value = String(input).trim().toLowerCase();
+
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+  if (NAMED_COLORS[value]) return parseColor(NAMED_COLORS[value]);
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.replace(/./g, (c) => c + c);
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+      a: digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1,
+    };
+  }
+
+  const fn = /^(rgba?|hsla?)\((.*)\)$/.exec(value);
+  if (fn) {
+    const [, name, body] = fn;
+    const [main, slashAlpha] = body.split('/').map((s) => s.trim());
+    const parts = main.split(/[\s,]+/).filter(Boolean);
+    if (parts.length < 3 || parts.length > 4 || (slashAlpha !== undefined && parts.length === 4)) {
+      throw new Error(`Invalid color: ${input}`);
+    }
+    const alpha = parseAlpha(slashAlpha ?? parts[3]);
+
+    if (name.startsWith('rgb')) {
+      const [r, g, b] = parts.slice(0, 3).map((p) => clamp(parseComponent(p, 255), 0, 255));
+      return { r, g, b, a: alpha };
+    }
+
+    const h = parseHue(parts[0]);
+    const s = clamp(parseComponent(parts[1], 1) / (parts[1].endsWith('%') ? 1 : 100), 0, 1);
+    const l = clamp(parseComponent(parts[2], 1) / (parts[2].endsWith('%') ? 1 : 100), 0, 1);
+    const [r, g, b] = hslToRgb(h, s, l);
+    return { r, g, b, a: alpha };
+  }
+
+  throw new Error(`Invalid color: ${input}`);
+}
+
+/**
+ * Serialize as #rrggbb when opaque, rgba() otherwise
+ */
+export function formatColor({ r, g, b, a }: Rgba): string {
+  const toHex = (v: number) =>
+    Math.round(clamp(v, 0, 255))
+      .toString(16)
+      .padStart(2, '0');
+  if (a >= 1) return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+  const round = (v: number) => Math.round(clamp(v, 0, 255));
+  return `rgba(${round(r)},${round(g)},${round(b)},${Math.round(clamp(a, 0, 1) * 1000) / 1000})`;
+}
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (v: number) => {
+  const c = v <= 0.0031308 ? v * 12.92 : 1.055 * Math.pow(v, 1 / 2.4) - 0.055;
+  return c * 255;
+};
+
+type Vec3 = [number, number, number];
+
+function rgbToOklab({ r, g, b }: Rgba): Vec3 {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+}
+
+function oklabToRgb([L, A, B]: Vec3): Vec3 {
+  const l = Math.pow(L + 0.3963377774 * A + 0.2158037573 * B, 3);
+  const m = Math.pow(L - 0.1055613458 * A - 0.0638541728 * B, 3);
+  const s = Math.pow(L - 0.0894841775 * A - 1.291485548 * B, 3);
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  ];
+}
+
+// CIE L*a*b* (D65) via XYZ
+const LAB_WHITE: Vec3 = [0.95047, 1, 1.08883];
+const labF = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : t / (3 * (6 / 29) ** 2) + 4 / 29);
+const labFInv = (t: number) => (t > 6 / 29 ? t ** 3 : 3 * (6 / 29) ** 2 * (t - 4 / 29));
+
+function rgbToHcl({ r, g, b }: Rgba): Vec3 {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const x = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / LAB_WHITE[0]);
+  const y = labF((0.2126729 * lr + 0.7151522 * lg + 0.072175 * lb) / LAB_WHITE[1]);
+  const z = labF((0.0193339 * lr + 0.119192 * lg + 0.9503041 * lb) / LAB_WHITE[2]);
+  const L = 116 * y - 16;
+  const A = 500 * (x - y);
+  const B = 200 * (y - z);
+  const h = (Math.atan2(B, A) * 180) / Math.PI;
+  return [(h + 360) % 360, Math.hypot(A, B), L];
+}
+
+function hclToRgb([h, c, L]: Vec3): Vec3 {
+  const rad = (h * Math.PI) / 180;
+  const y = (L + 16) / 116;
+  const x = y + (c * Math.cos(rad)) / 500;
+  const z = y - (c * Math.sin(rad)) / 200;
+  const X = labFInv(x) * LAB_WHITE[0];
+  const Y = labFInv(y) * LAB_WHITE[1];
+  const Z = labFInv(z) * LAB_WHITE[2];
+  return [
+    fromLinear(3.2404542 * X - 1.5371385 * Y - 0.4985314 * Z),
+    fromLinear(-0.969266 * X + 1.8760108 * Y + 0.041556 * Z),
+    fromLinear(0.0556434 * X - 0.2040259 * Y + 1.0572252 * Z),
+  ];
+}
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Shortest way around the hue circle; an achromatic end takes the other end's hue
+function lerpHue(a: number, b: number, ca: number, cb: number, t: number): number {
+  if (ca < 1e-4) a = b;
+  if (cb < 1e-4) b = a;
+  let d = b - a;
+  if (d > 180) d -= 360;
+  if (d < -180) d += 360;
+  return (a + d * t + 360) % 360;
+}
+
+export function mixColors(
+  from: Rgba,
+  to: Rgba,
+  t: number,
+  interpolation: ColorInterpolation = 'rgb'
+): Rgba {
+  const a = lerp(from.a, to.a, t);
+  let rgb: Vec3;
+
+  switch (interpolation) {
+    case 'rgb':
+      rgb = [lerp(from.r, to.r, t), lerp(from.g, to.g, t), lerp(from.b, to.b, t)];
+      break;
+    case 'oklab': {
+      const x = rgbToOklab(from);
+      const y = rgbToOklab(to);
+      rgb = oklabToRgb([lerp(x[0], y[0], t), lerp(x[1], y[1], t), lerp(x[2], y[2], t)]);
+      break;
+    }
+    case 'hcl': {
+      const x = rgbToHcl(from);
+      const y = rgbToHcl(to);
+      rgb = hclToRgb([
+        lerpHue(x[0], y[0], x[1], y[1], t),
+        lerp(x[1], y[1], t),
+        lerp(x[2], y[2], t),
+      ]);
+      break;
+    }
+  }
+
+  return { r: clamp(rgb[0], 0, 255), g: clamp(rgb[1], 0, 255), b: clamp(rgb[2], 0, 255), a };
+}
+
+// Alpha-composite a color over an opaque background
+function flatten(color: Rgba, background: Rgba): Rgba {
+  return { ...mixColors(background, { ...color, a: 1 }, color.a), a: 1 };
+}
+
+/**
+ * WCAG 2 relative luminance of an opaque color
+ */
+export function relativeLuminance({ r, g, b }: Rgba): number {
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b);
+}
+
+/**
+ * WCAG 2 contrast ratio (1 to 21) of a possibly translucent color over a background
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const bg = parseColor(background);
+  const l1 = relativeLuminance(flatten(parseColor(foreground), bg));
+  const l2 = relativeLuminance(bg);
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+}
+
+/**
+ * The candidate with the highest contrast against background
+ */
+export function mostReadable(background: string, candidates: string[]): string {
+  let best = candidates[0];
+  let bestRatio = -1;
+  for (const candidate of candidates) {
+    const ratio = contrastRatio(candidate, background);
+    if (ratio > bestRatio) {
+      best = candidate;
+      bestRatio = ratio;
+    }
+  }
+  return best;
+}
+
+/**
+ * The foreground itself when it meets the contrast ratio, otherwise the closest
+ * shade of it toward black or white (whichever contrasts more) that does
+ */
+export function ensureContrast(foreground: string, background: string, minRatio: number): string {
+  if (contrastRatio(foreground, background) >= minRatio) return foreground;
+
+  const bg = parseColor(background);
+  const base = flatten(parseColor(foreground), bg);
+  const black: Rgba = { r: 0, g: 0, b: 0, a: 1 };
+  const white: Rgba = { r: 255, g: 255, b: 255, a: 1 };
+  const target =
+    contrastRatio(formatColor(white), background) >= contrastRatio(formatColor(black), background)
+      ? white
+      : black;
+
+  for (let step = 1; step < 10; step++) {
+    const candidate = formatColor(mixColors(base, target, step / 10));
+    if (contrastRatio(candidate, background) >= minRatio) return candidate;
+  }
+  return formatColor(target);
+}
+
+/**
+ * Color scale over evenly spaced stops. With buckets, t is quantized to that many
+ * discrete levels first, like GitHub's contribution calendar.
+ */
+export function createColorScale(
+  stops: string[],
+  options: { interpolation?: ColorInterpolation; buckets?: number } = {}
+): (t: number) => string {
+  if (stops.length === 0) throw new Error('Color scale needs at least one stop');
+
+  const parsed = stops.map(parseColor);
+  const { interpolation = 'rgb', buckets } = options;
+
+  return (t: number) => {
+    let v = clamp(t || 0, 0, 1);
+    if (buckets && buckets > 1) v = Math.min(buckets - 1, Math.floor(v * buckets)) / (buckets - 1);
+    if (parsed.length === 1) return formatColor(parsed[0]);
+
+    const pos = v * (parsed.length - 1);
+    const i = Math.min(parsed.length - 2, Math.floor(pos));
+    return formatColor(mixColors(parsed[i], parsed[i + 1], pos - i, interpolation));
+  };
+}
+
+/**
+ * Split a list of colors on commas that are not inside parentheses,
+ * so "rgba(0,0,0,0.5), #fff" stays two entries
+ */
+export function splitColorList(value: string): string[] {
+  const out: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const ch of value) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      out.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  out.push(current.trim());
+
+  return out.filter(Boolean);
+}
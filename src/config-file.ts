@@ -0,0 +1,333 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import type { ConfigFileOptions, ThemePalette, TreemapConfigFile } from './types';
+import { CONFIG_FILE, CONTRIBUTION_KINDS, TREEMAP_TILINGS } from './constants';
+import { REPOSITORY_METRICS, COLOR_BY_MODES, METRIC_SCALES } from './metrics';
+import { GROUP_BY_MODES } from './grouping';
+import { THEME_NAMES, isThemeName, parseTheme } from './themes';
+import { COLOR_INTERPOLATIONS, parseColor } from './color';
+import { FONT_MODES } from './font-embed';
+import { OUTPUT_FORMATS } from './output';
+import { parseDate } from './time-window';
+import { parseLabelTemplate } from './labels';
+import { MEMBER_BREAKDOWNS, parseTeam } from './team';
+import { parseRepositoryFilter } from './filter';
+
+// Returns the value at path (e.g. "profiles.slide-wide.width") or throws if it doesn't fit
+type Check = (value: unknown, path: string) => unknown;
+
+// Settings holding file or directory paths, resolved against the config file's directory
+const PATH_KEYS = ['output', 'stableLayout', 'fontFile', 'cache', 'avatars'] as const;
+
+// Settings that take a theme file path besides a name or palette, read from the same directory
+const THEME_KEYS = ['theme', 'lightTheme', 'darkTheme'] as const;
+
+const at = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const fail = (path: string, expected: string): never => {
+  throw new Error(`"${path}" must be ${expected}`);
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const string: Check = (value, path) =>
+  typeof value === 'string' && value.trim() ? value : fail(path, 'a non-empty string');
+
+const boolean: Check = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'true or false');
+
+const number =
+  (expected: string, valid: (n: number) => boolean): Check =>
+  (value, path) =>
+    typeof value === 'number' && valid(value) ? value : fail(path, expected);
+
+const positiveInt = number('a positive integer', (n) => Number.isInteger(n) && n > 0);
+const nonNegativeInt = number('a non-negative integer', (n) => Number.isInteger(n) && n >= 0);
+const positiveNumber = number('a positive number', (n) => Number.isFinite(n) && n > 0);
+const nonNegativeNumber = number('a non-negative number', (n) => Number.isFinite(n) && n >= 0);
+
+const oneOf =
+  (choices: readonly string[]): Check =>
+  (value, path) =>
+    typeof value === 'string' && choices.includes(value)
+      ? value
+      : fail(path, `one of ${choices.join(', ')}`);
+
+const listOf =
+  (item: Check): Check =>
+  (value, path) =>
+    Array.isArray(value) ? value.map((v, i) => item(v, at(path, i))) : fail(path, 'an array');
+
+// Runs one of the module parsers, adding the path to its errors; keep returns the
+// value as given instead of the parser's result
+const parsedWith =
+  (parse: (value: never) => unknown, keep = false): Check =>
+  (value, path) => {
+    try {
+      const parsed = parse(value as never);
+      return keep ? value : parsed;
+    } catch (error) {
+      throw new Error(`"${path}": ${(error as Error).message}`);
+    }
+  };
+
+const color: Check = (value, path) => parsedWith(parseColor, true)(string(value, path), path);
+
+const date: Check = (value, path) => parsedWith(parseDate, true)(string(value, path), path);
+
+const locale: Check = (value, path) => {
+  try {
+    return Intl.getCanonicalLocales(string(value, path) as string)[0];
+  } catch {
+    return fail(path, 'a BCP 47 locale tag like en-US or de');
+  }
+};
+
+// Built-in theme name, an inline palette or a theme file path (read by parseConfigFile),
+// optionally 'auto'
+const theme =
+  (allowAuto: boolean): Check =>
+  (value, path) => {
+    if (typeof value !== 'string') return parsedWith(parseTheme)(value, path);
+    if (value === 'auto' && !allowAuto) {
+      return fail(path, `one of ${THEME_NAMES.join(', ')}, a palette object or a theme file`);
+    }
+    return string(value, path);
+  };
+
+const object =
+  (schema: Record<string, Check>): Check =>
+  (value, path) => {
+    if (!isObject(value)) return fail(path, 'an object');
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (!Object.hasOwn(schema, key)) throw new Error(`Unknown setting "${at(path, key)}"`);
+      result[key] = schema[key](item, at(path, key));
+    }
+    return result;
+  };
+
+const recordOf =
+  (item: Check): Check =>
+  (value, path) =>
+    isObject(value)
+      ? Object.fromEntries(Object.entries(value).map(([k, v]) => [k, item(v, at(path, k))]))
+      : fail(path, 'an object');
+
+const CONFIG_SCHEMA: Record<keyof NonNullable<ConfigFileOptions['config']>, Check> = {
+  canvasBg: color,
+  accent: color,
+  heatMin: color,
+  heatMax: color,
+  heatStops: listOf(color),
+  textPrimary: color,
+  textSecondary: color,
+  fontFamily: string,
+  heatInterpolation: oneOf(COLOR_INTERPOLATIONS),
+  heatBuckets: positiveInt,
+  fontMode: oneOf(FONT_MODES),
+  accessible: boolean,
+  minContrast: number('a contrast ratio from 1 to 21', (n) => n >= 1 && n <= 21),
+  title: string,
+  colorBy: oneOf(COLOR_BY_MODES),
+  colorScale: oneOf(METRIC_SCALES),
+  languageFallback: color,
+  header: string,
+  legend: boolean,
+  footer: boolean,
+  labelTemplate: parsedWith(parseLabelTemplate, true),
+  minStars: nonNegativeInt,
+  hideOwners: listOf(string),
+  locale,
+  avatarMinSize: positiveInt,
+  memberBreakdown: oneOf(MEMBER_BREAKDOWNS),
+};
+
+const OPTIONS_SCHEMA: Record<keyof ConfigFileOptions, Check> = {
+  username: string,
+  members: listOf(string),
+  org: string,
+  team: (value, path) => parsedWith(parseTeam, true)(string(value, path), path),
+  width: positiveInt,
+  height: positiveInt,
+  excludeRepos: listOf(string),
+  excludeOwners: listOf(string),
+  filter: parsedWith(parseRepositoryFilter),
+  timeoutMs: positiveInt,
+  githubBaseUrl: string,
+  contributionKinds: listOf(oneOf(CONTRIBUTION_KINDS)),
+  contributionWeights: object(
+    Object.fromEntries(CONTRIBUTION_KINDS.map((kind) => [kind, nonNegativeNumber]))
+  ),
+  cache: (value, path) => (value === false ? value : string(value, path)),
+  refresh: boolean,
+  waitForReset: boolean,
+  since: date,
+  until: date,
+  lastDays: positiveInt,
+  year: positiveInt,
+  sizeBy: oneOf(REPOSITORY_METRICS),
+  sizeScale: oneOf(METRIC_SCALES),
+  colorBy: oneOf(COLOR_BY_MODES),
+  colorScale: oneOf(METRIC_SCALES),
+  tiling: oneOf(TREEMAP_TILINGS),
+  tilingRatio: positiveNumber,
+  groupBy: oneOf(GROUP_BY_MODES),
+  groups: recordOf(listOf(string)),
+  maxRepos: positiveInt,
+  minContribs: positiveInt,
+  minArea: positiveNumber,
+  theme: theme(true),
+  lightTheme: theme(false),
+  darkTheme: theme(false),
+  fontFile: string,
+  fontMode: oneOf(FONT_MODES),
+  avatars: (value, path) => (typeof value === 'boolean' ? value : string(value, path)),
+  config: object(CONFIG_SCHEMA),
+  output: string,
+  format: oneOf(OUTPUT_FORMATS),
+  scale: positiveNumber,
+  stableLayout: string,
+};
+
+const FILE_SCHEMA: Record<keyof TreemapConfigFile | '$schema', Check> = {
+  ...OPTIONS_SCHEMA,
+  // Lets editors validate the file; ignored here
+  $schema: string,
+  profiles: recordOf(object(OPTIONS_SCHEMA)),
+  outputs: listOf((value, path) =>
+    typeof value === 'string' ? value : object({ ...OPTIONS_SCHEMA, profile: string })(value, path)
+  ),
+};
+
+/**
+ * Validate a config file's contents against the option schema. Throws on unknown
+ * settings, values of the wrong type and outputs naming undefined profiles. Theme
+ * settings naming a JSON theme file are replaced by its palette, read from dir.
+ */
+export function parseConfigFile(input: unknown, dir: string = process.cwd()): TreemapConfigFile {
+  if (!isObject(input)) throw new Error('Config file must be a JSON object');
+
+  const file = object(FILE_SCHEMA)(input, '') as TreemapConfigFile & { $schema?: string };
+  delete file.$schema;
+
+  for (const layer of configLayers(file)) {
+    for (const key of THEME_KEYS) {
+      const value = layer[key];
+      if (typeof value === 'string' && !isThemeName(value) && value !== 'auto') {
+        layer[key] = readThemeFile(resolve(dir, value));
+      }
+    }
+  }
+
+  file.outputs?.forEach((entry, i) => {
+    const name = typeof entry === 'string' ? entry : entry.profile;
+    if (name !== undefined) profileOptions(file, name, at('outputs', i));
+  });
+
+  return file;
+}
+
+/**
+ * treemap.config.json or .treemaprc in the directory, if there is one
+ */
+export function findConfigFile(dir: string = process.cwd()): string | undefined {
+  return CONFIG_FILE.NAMES.map((name) => join(dir, name)).find((path) => existsSync(path));
+}
+
+/**
+ * Read and validate a JSON config file. Relative paths in it (output, stableLayout,
+ * fontFile, cache, avatars and theme files) are resolved against the file's directory.
+ */
+export function loadConfigFile(path: string): TreemapConfigFile {
+  const dir = dirname(resolve(path));
+  const file = parseConfigFile(JSON.parse(readFileSync(path, 'utf8')), dir);
+
+  for (const layer of configLayers(file)) {
+    for (const key of PATH_KEYS) {
+      const value = layer[key];
+      if (typeof value === 'string') layer[key] = resolve(dir, value);
+    }
+  }
+
+  return file;
+}
+
+/**
+ * Layer option sets, later ones winning; config and filter are merged key by key.
+ * Undefined values leave the earlier value in place.
+ */
+export function mergeConfigOptions(...layers: ConfigFileOptions[]): ConfigFileOptions {
+  const merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer)) {
+      if (value === undefined) continue;
+      merged[key] =
+        key === 'config' || key === 'filter'
+          ? { ...(merged[key] as object), ...definedEntries(value) }
+          : value;
+    }
+  }
+  return merged as ConfigFileOptions;
+}
+
+/**
+ * Options of each image a run renders: one per named profile when profiles are
+ * given, else one per entry of the file's outputs, else the file's shared settings
+ */
+export function resolveConfigOutputs(
+  file: TreemapConfigFile,
+  profiles: string[] = []
+): ConfigFileOptions[] {
+  const { outputs } = file;
+  const shared: TreemapConfigFile = { ...file };
+  delete shared.profiles;
+  delete shared.outputs;
+
+  if (profiles.length > 0) {
+    return profiles.map((name) => mergeConfigOptions(shared, profileOptions(file, name)));
+  }
+  if (outputs && outputs.length > 0) {
+    return outputs.map((entry) => {
+      if (typeof entry === 'string') return mergeConfigOptions(shared, profileOptions(file, entry));
+      const { profile, ...options } = entry;
+      return mergeConfigOptions(shared, profile ? profileOptions(file, profile) : {}, options);
+    });
+  }
+  return [shared];
+}
+
+// The file's shared settings, each profile and each inline output
+function configLayers(file: TreemapConfigFile): ConfigFileOptions[] {
+  return [
+    file,
+    ...Object.values(file.profiles ?? {}),
+    ...(file.outputs ?? []).filter((entry): entry is ConfigFileOptions => isObject(entry)),
+  ];
+}
+
+function readThemeFile(path: string): ThemePalette {
+  try {
+    return parseTheme(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid theme file ${path}: ${(error as Error).message}`);
+  }
+}
+
+function profileOptions(file: TreemapConfigFile, name: string, path?: string): ConfigFileOptions {
+  const profiles = file.profiles ?? {};
+  if (!Object.hasOwn(profiles, name)) {
+    const known = Object.keys(profiles);
+    throw new Error(
+      `Unknown profile "${name}"${path ? ` in "${path}"` : ''} ` +
+        `(${known.length > 0 ? `expected one of ${known.join(', ')}` : 'the file defines none'})`
+    );
+  }
+  return profiles[name];
+}
+
+function definedEntries(value: object): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined));
+}
@@ -1,22 +1,133 @@
-import type { TreemapConfig, GitHubConfig } from './types';
+import type {
+  TreemapConfig,
+  GitHubConfig,
+  ContributionKind,
+  ContributionWeights,
+  LayoutOptions,
+  RepositoryMetric,
+  TreemapTiling,
+} from './types';
+import { THEMES } from './themes';
 
 export const DEFAULT_CONFIG: TreemapConfig = {
   width: 465,
   height: 165,
-  canvasBg: '#21232A',
-  accent: '#58BCDA',
-  heatMin: '#31343C',
-  heatMax: '#58BCDA',
-  textPrimary: '#FFFFFF',
-  textSecondary: 'rgba(255,255,255,0.75)',
+  ...THEMES.default,
   fontFamily: "'Segoe UI', Ubuntu, 'Helvetica Neue', Sans-Serif",
+  heatInterpolation: 'rgb',
+  fontMode: 'reference',
+  accessible: false,
+  // WCAG AA for normal-size text
+  minContrast: 4.5,
+  colorBy: 'score',
+  colorScale: 'linear',
+  // Neutral grey that reads on light and dark canvases
+  languageFallback: '#8b949e',
+  legend: false,
+  footer: false,
+  labelTemplate: '{label}\n{owner}\n**★ {stars}**',
+  minStars: 100,
+  hideOwners: [],
+  locale: 'en-US',
+  avatarMinSize: 64,
+  memberBreakdown: 'none',
 };
 
+export const DEFAULT_LAYOUT_OPTIONS: Required<Omit<LayoutOptions, 'previousLayout'>> = {
+  sizeBy: 'stars',
+  sizeScale: 'log',
+  tiling: 'binary',
+  tilingRatio: (1 + Math.sqrt(5)) / 2,
+  groupBy: 'none',
+  groups: {},
+  offsetTop: 0,
+  maxRepos: Infinity,
+  minContribs: 0,
+  minArea: 0,
+};
+
+export const TREEMAP_TILINGS: readonly TreemapTiling[] = [
+  'squarify',
+  'resquarify',
+  'binary',
+  'slice',
+  'dice',
+  'sliceDice',
+];
+
 export const DEFAULT_GITHUB_CONFIG: Omit<GitHubConfig, 'token'> = {
   baseUrl: 'https://api.github.com/graphql',
   timeoutMs: 15000,
 };
 
+export const CONTRIBUTION_KINDS: readonly ContributionKind[] = [
+  'mergedPrs',
+  'openedPrs',
+  'reviews',
+  'issues',
+  'discussions',
+  'commits',
+] as const;
+
+export const DEFAULT_CONTRIBUTION_KINDS: ContributionKind[] = ['mergedPrs'];
+
+// Plural nouns used in tooltips, e.g. "12 merged PRs"
+export const CONTRIBUTION_LABELS: Record<ContributionKind, string> = {
+  mergedPrs: 'merged PRs',
+  openedPrs: 'opened PRs',
+  reviews: 'reviews',
+  issues: 'issues',
+  discussions: 'discussions',
+  commits: 'commits',
+};
+
+export const DEFAULT_CONTRIBUTION_WEIGHTS: Required<ContributionWeights> = {
+  mergedPrs: 1,
+  openedPrs: 0.5,
+  reviews: 0.5,
+  issues: 0.25,
+  discussions: 0.25,
+  commits: 0.1,
+};
+
+export const TIME_WINDOW = {
+  // contributionsCollection accepts at most one year per query
+  MAX_RANGE_DAYS: 365,
+  // ...and lists the commits of at most this many repositories
+  MAX_COMMIT_REPOSITORIES: 100,
+} as const;
+
+export const SEARCH = {
+  PAGE_SIZE: 100,
+  // GitHub search never returns more than this many results for one query
+  MAX_RESULTS: 1000,
+  // Lower bound used when bisecting an open-ended window
+  EARLIEST_DATE: '2008-01-01T00:00:00Z',
+} as const;
+
+export const RATE_LIMIT = {
+  MAX_ATTEMPTS: 5,
+  // Exponential backoff with jitter for 5xx and rate limits without a reset hint
+  BASE_DELAY_MS: 1000,
+  MAX_BACKOFF_MS: 60_000,
+  // Longer waits for a reset fail the run unless waitForReset is set
+  MAX_AUTO_WAIT_MS: 60_000,
+} as const;
+
+export const CACHE = {
+  DIR_NAME: 'github-contribution-treemap-generator',
+  // Incremental searches start this long before the last sync, since the search
+  // index lags behind; cached items are keyed by id so the overlap is not counted twice
+  SYNC_OVERLAP_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+export const ENRICHMENT = {
+  // Aliased repository lookups per metadata query
+  BATCH_SIZE: 50,
+  // Topics fetched per repository
+  MAX_TOPICS: 20,
+} as const;
+
 export const FONT_SIZES = {
   MIN: 6,
   GAP: 3,
@@ -25,7 +136,104 @@ export const FONT_SIZES = {
   STARS_RATIO: 0.9,
 } as const;
 
+export const FONT_EMBED = {
+  // Family name of the embedded subset, placed first in font-family
+  FAMILY: 'TreemapLabelFont',
+} as const;
+
+export const OUTPUT = {
+  DEFAULT_SCALE: 1,
+  // PDF pages are sized in points, 72 per inch, against 96 CSS px per inch
+  PT_PER_PX: 0.75,
+} as const;
+
+export const CONFIG_FILE = {
+  // Looked up in the working directory, in this order
+  NAMES: ['treemap.config.json', '.treemaprc'],
+} as const;
+
+export const ACCESSIBILITY = {
+  DEFAULT_TITLE: 'GitHub contribution treemap',
+  // Repositories named in the generated description
+  SUMMARY_REPOS: 5,
+} as const;
+
 export const LAYOUT = {
   PADDING: 4,
   INNER_PADDING: 2,
 } as const;
+
+export const AVATAR = {
+  // Diameter on the tile, and the size fetched so raster output at 2x stays sharp
+  SIZE: 20,
+  FETCH_SIZE: 40,
+  URL: 'https://github.com',
+  TIMEOUT_MS: 10_000,
+  // Parallel image loads
+  CONCURRENCY: 4,
+  EXTENSIONS: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg'],
+} as const;
+
+export const MEMBERS = {
+  // Categorical colors (Tableau 10), assigned to members by total contributions
+  COLORS: [
+    '#4e79a7',
+    '#f28e2b',
+    '#e15759',
+    '#76b7b2',
+    '#59a14f',
+    '#edc948',
+    '#b07aa1',
+    '#ff9da7',
+    '#9c755f',
+    '#bab0ac',
+  ],
+  BAND_HEIGHT: 6,
+  // Sub-tiles need this much height left under the label
+  MIN_TILES_HEIGHT: 12,
+  // Logins listed by {members}
+  LABEL_COUNT: 3,
+  // GraphQL page size for org and team member lists
+  PAGE_SIZE: 100,
+} as const;
+
+export const LEGEND = {
+  HEIGHT: 18,
+  SWATCH_SIZE: 8,
+  FONT_SIZE: 10,
+  // Space between a swatch and its label, and between entries
+  GAP: 4,
+  ITEM_GAP: 12,
+  // Heat gradient bar, drawn in this many steps unless heatBuckets is set
+  BAR_WIDTH: 80,
+  BAR_STEPS: 16,
+} as const;
+
+export const CHROME = {
+  HEADER_HEIGHT: 22,
+  HEADER_FONT_SIZE: 13,
+  FOOTER_HEIGHT: 16,
+  FOOTER_FONT_SIZE: 9,
+  // {username} is replaced with the treemap's user
+  DEFAULT_HEADER: "@{username}'s open-source contributions",
+} as const;
+
+// Legend captions of the heat metrics
+export const METRIC_LABELS: Record<RepositoryMetric, string> = {
+  stars: 'Stars',
+  contribs: 'Contributions',
+  score: 'Score',
+};
+
+export const OTHER_BUCKET = {
+  // Not a valid owner/name, so it cannot clash with a repository
+  ID: '+other',
+} as const;
+
+export const GROUPING = {
+  HEADER_HEIGHT: 14,
+  OUTER_PADDING: 2,
+  FONT_SIZE: 10,
+  // Custom-group bucket for repos that match no group
+  OTHER_LABEL: 'other',
+} as const;
@@ -1,28 +1,163 @@
-import { hierarchy, treemap, treemapBinary } from 'd3-hierarchy';
-import type { NormalizedRepository, TreemapNode } from './types';
+import {
+  hierarchy,
+  treemap,
+  treemapBinary,
+  treemapDice,
+  treemapResquarify,
+  treemapSlice,
+  treemapSliceDice,
+  treemapSquarify,
+} from 'd3-hierarchy';
+import type {
+  LayoutOptions,
+  LayoutState,
+  MemberContribution,
+  NormalizedRepository,
+  TreemapDatum,
+  TreemapGroupNode,
+  TreemapLayout,
+  TreemapNode,
+  TreemapRect,
+  TreemapTiling,
+} from './types';
+import { DEFAULT_LAYOUT_OPTIONS, GROUPING, LAYOUT } from './constants';
+import { scaledMetric } from './metrics';
+import { groupRepositories, isRepository } from './grouping';
+import { collapseLongTail, isOtherBucket } from './long-tail';
+
+function tileFor(tiling: TreemapTiling, ratio: number) {
+  switch (tiling) {
+    case 'squarify':
+      return treemapSquarify.ratio(ratio);
+    case 'resquarify':
+      return treemapResquarify.ratio(ratio);
+    case 'binary':
+      return treemapBinary;
+    case 'slice':
+      return treemapSlice;
+    case 'dice':
+      return treemapDice;
+    case 'sliceDice':
+      return treemapSliceDice;
+  }
+}
 
 export function computeTreemapLayout(
   items: NormalizedRepository[],
   width: number,
-  height: number
-): { leaves(): TreemapNode[] } {
-  const root = hierarchy({ children: items })
-    .sum((d: { stars?: number } | { children?: NormalizedRepository[] }) => {
-      // d is the data object, which could be the root or a NormalizedRepository
-      if ('stars' in d && typeof d.stars === 'number') {
-        return Math.max(1, Math.log2(d.stars + 1));
+  height: number,
+  options: LayoutOptions = {}
+): TreemapLayout {
+  const sizeBy = options.sizeBy ?? DEFAULT_LAYOUT_OPTIONS.sizeBy;
+  const sizeScale = options.sizeScale ?? DEFAULT_LAYOUT_OPTIONS.sizeScale;
+  const tiling = options.tiling ?? DEFAULT_LAYOUT_OPTIONS.tiling;
+  const tilingRatio = options.tilingRatio ?? DEFAULT_LAYOUT_OPTIONS.tilingRatio;
+  // Passing custom groups implies groupBy: 'custom'
+  const groupBy =
+    options.groupBy ??
+    (Object.keys(options.groups ?? {}).length > 0 ? 'custom' : DEFAULT_LAYOUT_OPTIONS.groupBy);
+
+  const repositories = collapseLongTail(items, width * height, {
+    sizeBy,
+    sizeScale,
+    maxRepos: options.maxRepos ?? DEFAULT_LAYOUT_OPTIONS.maxRepos,
+    minContribs: options.minContribs ?? DEFAULT_LAYOUT_OPTIONS.minContribs,
+    minArea: options.minArea ?? DEFAULT_LAYOUT_OPTIONS.minArea,
+  });
+
+  // The "Other" bucket belongs to no group and sits next to them
+  const other = repositories.filter(isOtherBucket);
+  const children: TreemapDatum[] =
+    groupBy === 'none'
+      ? repositories
+      : [
+          ...groupRepositories(
+            repositories.filter((repo) => !isOtherBucket(repo)),
+            groupBy,
+            options.groups
+          ),
+          ...other,
+        ];
+
+  // Stable mode: repos from the previous run keep their rank, new ones go after them.
+  // A group ranks by its best-ranked repo.
+  const previousRank = new Map(options.previousLayout?.order.map((id, i) => [id, i]));
+  const rank = (d: TreemapDatum | { children: TreemapDatum[] }): number => {
+    if (isRepository(d)) return previousRank.get(d.id) ?? Infinity;
+    return Math.min(Infinity, ...d.children.map(rank));
+  };
+
+  const root = hierarchy<TreemapDatum | { children: TreemapDatum[] }>({ children })
+    .sum((d) => {
+      // d is the data object, which could be the root, a group or a NormalizedRepository
+      if (isRepository(d)) {
+        return Math.max(1, scaledMetric(d, sizeBy, sizeScale));
       }
-      return 1;
+      return 0;
     })
-    .sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
+    .sort((a, b) => {
+      if (previousRank.size > 0) {
+        const ra = rank(a.data);
+        const rb = rank(b.data);
+        if (ra !== rb) return ra < rb ? -1 : 1;
+      }
+      return (b.value ?? 0) - (a.value ?? 0);
+    });
 
-  const treemapLayout = treemap()
-    .tile(treemapBinary)
+  const treemapLayout = treemap<TreemapDatum | { children: TreemapDatum[] }>()
+    .tile(tileFor(tiling, tilingRatio))
     .size([width, height])
-    .paddingInner(2)
+    .paddingInner(LAYOUT.INNER_PADDING)
+    .paddingOuter((node) => (node.depth === 1 ? GROUPING.OUTER_PADDING : 0))
+    .paddingTop((node) => (node.depth === 1 ? GROUPING.HEADER_HEIGHT : 0))
     .round(true);
 
-  return treemapLayout(root as unknown as Parameters<typeof treemapLayout>[0]) as {
-    leaves(): TreemapNode[];
+  const laidOut = treemapLayout(root) as unknown as TreemapNode<TreemapDatum>;
+
+  const offsetTop = options.offsetTop ?? DEFAULT_LAYOUT_OPTIONS.offsetTop;
+  if (offsetTop) {
+    laidOut.each((node) => {
+      node.y0 += offsetTop;
+      node.y1 += offsetTop;
+    });
+  }
+
+  return {
+    leaves: () => laidOut.leaves() as TreemapNode[],
+    groups: () =>
+      (laidOut.children ?? []).filter((node) => !isRepository(node.data)) as TreemapGroupNode[],
   };
 }
+
+/**
+ * Capture the tile order of a computed layout, to be passed back as previousLayout
+ */
+export function createLayoutState(leaves: TreemapNode[]): LayoutState {
+  return { version: 1, order: leaves.map((node) => node.data.id) };
+}
+
+/**
+ * Squarified sub-tiles of a team tile's members within rect, sized by contributions
+ */
+export function layoutMemberTiles(
+  members: MemberContribution[],
+  rect: TreemapRect
+): Array<TreemapRect & { login: string }> {
+  const root = hierarchy<MemberContribution | { children: MemberContribution[] }>({
+    children: members.filter((member) => member.contribs > 0),
+  }).sum((d) => ('login' in d ? d.contribs : 0));
+
+  const laidOut = treemap<MemberContribution | { children: MemberContribution[] }>()
+    .tile(treemapSquarify)
+    .size([rect.width, rect.height])
+    .paddingInner(1)
+    .round(true)(root);
+
+  return laidOut.leaves().map((node) => ({
+    login: (node.data as MemberContribution).login,
+    x: rect.x + node.x0,
+    y: rect.y + node.y0,
+    width: node.x1 - node.x0,
+    height: node.y1 - node.y0,
+  }));
+}
@@ -0,0 +1,168 @@
+import type {
+  MemberContribution,
+  NormalizedRepository,
+  TreemapData,
+  TreemapLayout,
+  TreemapRect,
+} from './types';
+import { CONTRIBUTION_KINDS } from './constants';
+
+function rect(node: { x0: number; y0: number; x1: number; y1: number }): TreemapRect {
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return {
+    x: round(node.x0),
+    y: round(node.y0),
+    width: round(node.x1 - node.x0),
+    height: round(node.y1 - node.y0),
+  };
+}
+
+export function createTreemapData(
+  username: string,
+  repositories: NormalizedRepository[],
+  layout: TreemapLayout,
+  fetchedAt: Date = new Date(),
+  members?: string[]
+): TreemapData {
+  return {
+    version: 1,
+    username,
+    ...(members && { members }),
+    fetchedAt: fetchedAt.toISOString(),
+    repositories,
+    layout: layout.leaves().map((node) => ({
+      id: node.data.id,
+      ...rect(node),
+      ...(node.depth > 1 && node.parent && { group: node.parent.data.id }),
+    })),
+    groups: layout.groups().map((node) => ({
+      id: node.data.id,
+      label: node.data.label,
+      ...rect(node),
+    })),
+  };
+}
+
+function parseRepository(input: unknown, index: number): NormalizedRepository {
+  const fail = (reason: string): never => {
+    throw new Error(`Repository ${index} ${reason}`);
+  };
+  if (!input || typeof input !== 'object') fail('must be an object');
+
+  const raw = input as Record<string, unknown>;
+  for (const key of ['id', 'label', 'owner'] as const) {
+    if (typeof raw[key] !== 'string' || !raw[key]) fail(`is missing "${key}"`);
+  }
+  for (const key of ['stars', 'contribs', 'score'] as const) {
+    if (typeof raw[key] !== 'number' || !Number.isFinite(raw[key])) fail(`has an invalid "${key}"`);
+  }
+
+  const contributions: NormalizedRepository['contributions'] = {};
+  const rawContributions = (raw.contributions ?? {}) as Record<string, unknown>;
+  for (const kind of CONTRIBUTION_KINDS) {
+    const count = rawContributions[kind];
+    if (count === undefined) continue;
+    if (typeof count !== 'number' || count < 0) fail(`has an invalid "${kind}" count`);
+    contributions[kind] = count as number;
+  }
+
+  for (const key of ['description', 'language', 'languageColor'] as const) {
+    if (raw[key] !== undefined && typeof raw[key] !== 'string') fail(`has an invalid "${key}"`);
+  }
+  if (
+    raw.topics !== undefined &&
+    (!Array.isArray(raw.topics) || raw.topics.some((topic) => typeof topic !== 'string'))
+  ) {
+    fail('has invalid "topics"');
+  }
+
+  const members = raw.members === undefined ? undefined : parseMembers(raw.members, fail);
+
+  const id = raw.id as string;
+  return {
+    id,
+    label: raw.label as string,
+    owner: raw.owner as string,
+    url: typeof raw.url === 'string' && raw.url ? raw.url : `https://github.com/${id}`,
+    stars: raw.stars as number,
+    contribs: raw.contribs as number,
+    contributions,
+    score: raw.score as number,
+    isOwnedByUser: raw.isOwnedByUser === true,
+    isFork: raw.isFork === true,
+    // Metadata is absent from data saved before it was fetched
+    ...(raw.description !== undefined && { description: raw.description as string }),
+    ...(raw.language !== undefined && { language: raw.language as string }),
+    ...(raw.languageColor !== undefined && { languageColor: raw.languageColor as string }),
+    topics: (raw.topics as string[] | undefined) ?? [],
+    isArchived: raw.isArchived === true,
+    isPrivate: raw.isPrivate === true,
+    ...(members && { members }),
+  };
+}
+
+function parseMembers(input: unknown, fail: (reason: string) => never): MemberContribution[] {
+  if (!Array.isArray(input)) fail('has invalid "members"');
+
+  return (input as unknown[]).map((member) => {
+    const raw = (member ?? {}) as Record<string, unknown>;
+    if (typeof raw.login !== 'string' || !raw.login) fail('has a member without "login"');
+    for (const key of ['contribs', 'score'] as const) {
+      if (typeof raw[key] !== 'number' || !Number.isFinite(raw[key])) {
+        fail(`has a member with an invalid "${key}"`);
+      }
+    }
+
+    const contributions: MemberContribution['contributions'] = {};
+    const rawContributions = (raw.contributions ?? {}) as Record<string, unknown>;
+    for (const kind of CONTRIBUTION_KINDS) {
+      const count = rawContributions[kind];
+      if (typeof count === 'number' && count >= 0) contributions[kind] = count;
+    }
+
+    return {
+      login: raw.login as string,
+      contribs: raw.contribs as number,
+      contributions,
+      score: raw.score as number,
+    };
+  });
+}
+
+/**
+ * Validate data saved with --format json. Only the repositories are needed to
+ * render again; the saved layout is kept as exported.
+ */
+export function parseTreemapData(input: unknown): TreemapData {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Treemap data must be a JSON object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (raw.version !== 1)
+    throw new Error(`Unsupported treemap data version: ${String(raw.version)}`);
+  if (typeof raw.username !== 'string') throw new Error('Treemap data is missing "username"');
+  if (!Array.isArray(raw.repositories))
+    throw new Error('Treemap data "repositories" must be an array');
+
+  const fetchedAt = typeof raw.fetchedAt === 'string' ? new Date(raw.fetchedAt) : undefined;
+  if (!fetchedAt || isNaN(fetchedAt.getTime()))
+    throw new Error('Treemap data has an invalid "fetchedAt"');
+
+  if (
+    raw.members !== undefined &&
+    (!Array.isArray(raw.members) || raw.members.some((member) => typeof member !== 'string'))
+  ) {
+    throw new Error('Treemap data "members" must be an array of logins');
+  }
+
+  return {
+    version: 1,
+    username: raw.username,
+    ...(raw.members !== undefined && { members: raw.members as string[] }),
+    fetchedAt: raw.fetchedAt as string,
+    repositories: raw.repositories.map(parseRepository),
+    layout: Array.isArray(raw.layout) ? raw.layout : [],
+    groups: Array.isArray(raw.groups) ? raw.groups : [],
+  };
+}
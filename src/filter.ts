@@ -0,0 +1,119 @@
+import type { NormalizedRepository, RepositoryFilter } from './types';
+
+type Matcher = (repo: { owner: string; label: string }) => boolean;
+
+const BOOLEAN_KEYS = ['includeOwn', 'includeForks', 'includeArchived', 'includePrivate'] as const;
+const LIST_KEYS = ['include', 'exclude', 'languages', 'excludeLanguages'] as const;
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Matcher for one pattern: /regex/flags against owner/name, a glob against
+ * owner/name, or against the repository name alone when it has no /
+ */
+export function compilePattern(pattern: string): Matcher {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    let compiled: RegExp;
+    try {
+      // g and y would make test() resume from lastIndex, alternating results across repos
+      compiled = new RegExp(regex[1], regex[2].replace(/[gy]/g, ''));
+    } catch (error) {
+      throw new Error(`Invalid pattern ${pattern}: ${(error as Error).message}`);
+    }
+    return (repo) => compiled.test(`${repo.owner}/${repo.label}`);
+  }
+
+  const glob = globToRegExp(pattern);
+  return pattern.includes('/')
+    ? (repo) => glob.test(`${repo.owner}/${repo.label}`)
+    : (repo) => glob.test(repo.label);
+}
+
+/**
+ * Predicate for the repositories a filter keeps
+ */
+export function createRepositoryFilter(
+  filter: RepositoryFilter
+): (repo: NormalizedRepository) => boolean {
+  const include = (filter.include ?? []).map(compilePattern);
+  const exclude = (filter.exclude ?? []).map(compilePattern);
+  const languages = new Set(filter.languages?.map((name) => name.toLowerCase()));
+  const excludeLanguages = new Set(filter.excludeLanguages?.map((name) => name.toLowerCase()));
+  const language = (repo: NormalizedRepository) => repo.language?.toLowerCase() ?? '';
+
+  return (repo) =>
+    (include.length === 0 || include.some((match) => match(repo))) &&
+    !exclude.some((match) => match(repo)) &&
+    repo.stars >= (filter.minStars ?? 0) &&
+    (filter.includeOwn === true || !repo.isOwnedByUser) &&
+    (filter.includeForks === true || !repo.isFork) &&
+    (filter.includeArchived !== false || !repo.isArchived) &&
+    (filter.includePrivate !== false || !repo.isPrivate) &&
+    (languages.size === 0 || languages.has(language(repo))) &&
+    !excludeLanguages.has(language(repo));
+}
+
+/**
+ * Validate a filter loaded from JSON, compiling its patterns so bad ones fail early
+ */
+export function parseRepositoryFilter(input: unknown): RepositoryFilter {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Filter must be a JSON object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filter: RepositoryFilter = {};
+
+  for (const key of LIST_KEYS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+      throw new Error(`Filter "${key}" must be an array of strings`);
+    }
+    filter[key] = value as string[];
+  }
+  for (const pattern of [...(filter.include ?? []), ...(filter.exclude ?? [])]) {
+    compilePattern(pattern);
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'boolean') throw new Error(`Filter "${key}" must be true or false`);
+    filter[key] = value;
+  }
+
+  if (raw.minStars !== undefined) {
+    if (typeof raw.minStars !== 'number' || !(raw.minStars >= 0)) {
+      throw new Error('Filter "minStars" must be a non-negative number');
+    }
+    filter.minStars = raw.minStars;
+  }
+
+  const unknown = Object.keys(raw).filter(
+    (key) =>
+      key !== 'minStars' &&
+      !(LIST_KEYS as readonly string[]).includes(key) &&
+      !(BOOLEAN_KEYS as readonly string[]).includes(key)
+  );
+  if (unknown.length > 0) throw new Error(`Unknown filter keys: ${unknown.join(', ')}`);
+
+  return filter;
+}
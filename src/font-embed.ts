@@ -0,0 +1,389 @@
+import type { FontMode } from './types';
+import type { ParsedFont } from './font';
+import { graphemes } from './text-metrics';
+
+export const FONT_MODES: readonly FontMode[] = ['reference', 'embed', 'paths'];
+
+// Tables kept in a subset; browsers' font sanitizers require all of these but glyf/loca.
+// cvt, fpgm and prep hold what the glyphs' hinting instructions refer to.
+const SUBSET_TABLES = [
+  'OS/2',
+  'cmap',
+  'cvt ',
+  'fpgm',
+  'glyf',
+  'head',
+  'hhea',
+  'hmtx',
+  'loca',
+  'maxp',
+  'name',
+  'post',
+  'prep',
+];
+
+// Composite glyph flags
+const ARG_1_AND_2_ARE_WORDS = 0x0001;
+const ARGS_ARE_XY_VALUES = 0x0002;
+const WE_HAVE_A_SCALE = 0x0008;
+const MORE_COMPONENTS = 0x0020;
+const WE_HAVE_AN_X_AND_Y_SCALE = 0x0040;
+const WE_HAVE_A_TWO_BY_TWO = 0x0080;
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function requireTrueType(font: ParsedFont): { glyf: Uint8Array; offsets: number[] } {
+  const glyf = font.tables.get('glyf');
+  const loca = font.tables.get('loca');
+  const head = font.tables.get('head');
+  if (font.outlines !== 'truetype' || !glyf || !loca || !head) {
+    throw new Error('Only TrueType-outline fonts (glyf) can be subset or converted to paths');
+  }
+
+  const longOffsets = view(head).getInt16(50) === 1;
+  const locaView = view(loca);
+  const offsets: number[] = [];
+  for (let i = 0; i <= font.numGlyphs; i++) {
+    offsets.push(longOffsets ? locaView.getUint32(i * 4) : locaView.getUint16(i * 2) * 2);
+  }
+
+  return { glyf, offsets };
+}
+
+function glyphData(glyf: Uint8Array, offsets: number[], glyphId: number): Uint8Array {
+  return glyf.subarray(offsets[glyphId], offsets[glyphId + 1]);
+}
+
+interface Component {
+  glyphId: number;
+  // Affine transform [a, b, c, d, e, f]: x' = a*x + c*y + e, y' = b*x + d*y + f
+  transform: [number, number, number, number, number, number];
+}
+
+function readComponents(data: Uint8Array): Component[] {
+  const dv = view(data);
+  const components: Component[] = [];
+  let pos = 10;
+  let flags: number;
+
+  do {
+    flags = dv.getUint16(pos);
+    const glyphId = dv.getUint16(pos + 2);
+    pos += 4;
+
+    let dx = 0;
+    let dy = 0;
+    if (flags & ARG_1_AND_2_ARE_WORDS) {
+      dx = dv.getInt16(pos);
+      dy = dv.getInt16(pos + 2);
+      pos += 4;
+    } else {
+      dx = dv.getInt8(pos);
+      dy = dv.getInt8(pos + 1);
+      pos += 2;
+    }
+    // Point-matched anchoring is rare in practice; treat it as no offset
+    if (!(flags & ARGS_ARE_XY_VALUES)) dx = dy = 0;
+
+    const f2dot14 = (at: number) => dv.getInt16(at) / 16384;
+    let a = 1;
+    let b = 0;
+    let c = 0;
+    let d = 1;
+    if (flags & WE_HAVE_A_SCALE) {
+      a = d = f2dot14(pos);
+      pos += 2;
+    } else if (flags & WE_HAVE_AN_X_AND_Y_SCALE) {
+      a = f2dot14(pos);
+      d = f2dot14(pos + 2);
+      pos += 4;
+    } else if (flags & WE_HAVE_A_TWO_BY_TWO) {
+      a = f2dot14(pos);
+      b = f2dot14(pos + 2);
+      c = f2dot14(pos + 4);
+      d = f2dot14(pos + 6);
+      pos += 8;
+    }
+
+    components.push({ glyphId, transform: [a, b, c, d, dx, dy] });
+  } while (flags & MORE_COMPONENTS);
+
+  return components;
+}
+
+type Point = { x: number; y: number; onCurve: boolean };
+
+function readSimpleContours(data: Uint8Array, numberOfContours: number): Point[][] {
+  const dv = view(data);
+  const endPts: number[] = [];
+  for (let i = 0; i < numberOfContours; i++) endPts.push(dv.getUint16(10 + i * 2));
+
+  const numPoints = numberOfContours > 0 ? endPts[endPts.length - 1] + 1 : 0;
+  const instructionLength = dv.getUint16(10 + numberOfContours * 2);
+  let pos = 12 + numberOfContours * 2 + instructionLength;
+
+  const flags: number[] = [];
+  while (flags.length < numPoints) {
+    const flag = dv.getUint8(pos++);
+    flags.push(flag);
+    if (flag & 0x08) {
+      const repeat = dv.getUint8(pos++);
+      for (let r = 0; r < repeat; r++) flags.push(flag);
+    }
+  }
+
+  const readCoords = (shortBit: number, sameBit: number): number[] => {
+    const out: number[] = [];
+    let value = 0;
+    for (const flag of flags.slice(0, numPoints)) {
+      if (flag & shortBit) {
+        const delta = dv.getUint8(pos++);
+        value += flag & sameBit ? delta : -delta;
+      } else if (!(flag & sameBit)) {
+        value += dv.getInt16(pos);
+        pos += 2;
+      }
+      out.push(value);
+    }
+    return out;
+  };
+
+  const xs = readCoords(0x02, 0x10);
+  const ys = readCoords(0x04, 0x20);
+
+  const contours: Point[][] = [];
+  let start = 0;
+  for (const end of endPts) {
+    const contour: Point[] = [];
+    for (let i = start; i <= end; i++) {
+      contour.push({ x: xs[i], y: ys[i], onCurve: (flags[i] & 0x01) !== 0 });
+    }
+    contours.push(contour);
+    start = end + 1;
+  }
+  return contours;
+}
+
+/**
+ * Outline contours of a glyph in font units, with composite glyphs flattened
+ */
+function glyphContours(glyf: Uint8Array, offsets: number[], glyphId: number, depth = 0): Point[][] {
+  const data = glyphData(glyf, offsets, glyphId);
+  if (data.length === 0 || depth > 8) return [];
+
+  const numberOfContours = view(data).getInt16(0);
+  if (numberOfContours >= 0) return readSimpleContours(data, numberOfContours);
+
+  const contours: Point[][] = [];
+  for (const { glyphId: child, transform } of readComponents(data)) {
+    const [a, b, c, d, e, f] = transform;
+    for (const contour of glyphContours(glyf, offsets, child, depth + 1)) {
+      contours.push(
+        contour.map((p) => ({
+          x: a * p.x + c * p.y + e,
+          y: b * p.x + d * p.y + f,
+          onCurve: p.onCurve,
+        }))
+      );
+    }
+  }
+  return contours;
+}
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+// Quadratic B-spline contour to SVG path commands, inserting implied on-curve midpoints
+function contourToPath(points: Point[], tx: (p: Point) => [number, number]): string {
+  if (points.length === 0) return '';
+
+  const mid = (p: Point, q: Point): Point => ({
+    x: (p.x + q.x) / 2,
+    y: (p.y + q.y) / 2,
+    onCurve: true,
+  });
+
+  const firstOn = points.findIndex((p) => p.onCurve);
+  const start = firstOn >= 0 ? points[firstOn] : mid(points[points.length - 1], points[0]);
+  const ordered =
+    firstOn >= 0 ? [...points.slice(firstOn + 1), ...points.slice(0, firstOn)] : points;
+
+  const [sx, sy] = tx(start);
+  let d = `M${fmt(sx)} ${fmt(sy)}`;
+  let control: Point | undefined;
+
+  const emit = (p: Point) => {
+    const [x, y] = tx(p);
+    if (control) {
+      const [cx, cy] = tx(control);
+      d += `Q${fmt(cx)} ${fmt(cy)} ${fmt(x)} ${fmt(y)}`;
+      control = undefined;
+    } else {
+      d += `L${fmt(x)} ${fmt(y)}`;
+    }
+  };
+
+  for (const p of [...ordered, start]) {
+    if (p.onCurve) {
+      emit(p);
+    } else if (control) {
+      emit(mid(control, p));
+      control = p;
+    } else {
+      control = p;
+    }
+  }
+
+  return d + 'Z';
+}
+
+/**
+ * SVG path data for a line of text with its left edge at x and alphabetic baseline at y.
+ * Characters the font lacks are skipped but still advance by their .notdef width.
+ */
+export function textToPath(
+  font: ParsedFont,
+  text: string,
+  x: number,
+  baselineY: number,
+  fontSizePx: number
+): string {
+  const { glyf, offsets } = requireTrueType(font);
+  const scale = fontSizePx / font.unitsPerEm;
+  let penX = x;
+  let d = '';
+
+  for (const cluster of graphemes(text)) {
+    const glyphId = font.glyphId(cluster.codePointAt(0) ?? 0);
+    const originX = penX;
+    const tx = (p: Point): [number, number] => [originX + p.x * scale, baselineY - p.y * scale];
+
+    if (glyphId) {
+      for (const contour of glyphContours(glyf, offsets, glyphId)) d += contourToPath(contour, tx);
+    }
+    penX += font.advanceWidth(glyphId) * scale;
+  }
+
+  return d;
+}
+
+function checksum(data: Uint8Array): number {
+  const padded = new Uint8Array((data.length + 3) & ~3);
+  padded.set(data);
+  const dv = view(padded);
+  let sum = 0;
+  for (let i = 0; i < padded.length; i += 4) sum = (sum + dv.getUint32(i)) >>> 0;
+  return sum;
+}
+
+/**
+ * Serialize tables into an sfnt (TTF/OTF) file with valid checksums
+ */
+function buildSfnt(tables: Map<string, Uint8Array>, sfntVersion: number): Uint8Array {
+  const tags = Array.from(tables.keys()).sort();
+  const numTables = tags.length;
+  const headerSize = 12 + numTables * 16;
+  let size = headerSize;
+  for (const t of tags) size += ((tables.get(t) as Uint8Array).length + 3) & ~3;
+
+  const out = new Uint8Array(size);
+  const dv = view(out);
+  const entrySelector = Math.floor(Math.log2(numTables));
+  const searchRange = 2 ** entrySelector * 16;
+
+  dv.setUint32(0, sfntVersion);
+  dv.setUint16(4, numTables);
+  dv.setUint16(6, searchRange);
+  dv.setUint16(8, entrySelector);
+  dv.setUint16(10, numTables * 16 - searchRange);
+
+  let offset = headerSize;
+  let headOffset = -1;
+  tags.forEach((t, i) => {
+    const data = tables.get(t) as Uint8Array;
+    const rec = 12 + i * 16;
+    for (let k = 0; k < 4; k++) dv.setUint8(rec + k, t.charCodeAt(k));
+    dv.setUint32(rec + 4, checksum(data));
+    dv.setUint32(rec + 8, offset);
+    dv.setUint32(rec + 12, data.length);
+    out.set(data, offset);
+    if (t === 'head') headOffset = offset;
+    offset += (data.length + 3) & ~3;
+  });
+
+  if (headOffset >= 0) {
+    dv.setUint32(headOffset + 8, (0xb1b0afba - checksum(out)) >>> 0);
+  }
+
+  return out;
+}
+
+/**
+ * Font file containing outlines only for the glyphs needed to draw `text`.
+ * Glyph ids are kept (unused glyphs become empty), so cmap and hmtx stay valid.
+ * CFF fonts cannot be subset and are returned whole.
+ */
+export function subsetFont(font: ParsedFont, text: string): Uint8Array {
+  if (font.outlines !== 'truetype') {
+    const sfntVersion = 0x4f54544f; // 'OTTO'
+    return buildSfnt(new Map(font.tables), sfntVersion);
+  }
+
+  const { glyf, offsets } = requireTrueType(font);
+
+  // .notdef plus every glyph used, including components of composite glyphs
+  const keep = new Set<number>();
+  const queue = [0, ...Array.from(text, (ch) => font.glyphId(ch.codePointAt(0) ?? 0))];
+  while (queue.length > 0) {
+    const id = queue.pop() as number;
+    if (keep.has(id)) continue;
+    keep.add(id);
+    const data = glyphData(glyf, offsets, id);
+    if (data.length > 0 && view(data).getInt16(0) < 0) {
+      for (const component of readComponents(data)) queue.push(component.glyphId);
+    }
+  }
+
+  let glyfSize = 0;
+  for (const id of keep) glyfSize += (glyphData(glyf, offsets, id).length + 3) & ~3;
+
+  const newGlyf = new Uint8Array(glyfSize);
+  const newLoca = new Uint8Array((font.numGlyphs + 1) * 4);
+  const locaView = view(newLoca);
+  let pos = 0;
+  for (let id = 0; id < font.numGlyphs; id++) {
+    locaView.setUint32(id * 4, pos);
+    if (!keep.has(id)) continue;
+    const data = glyphData(glyf, offsets, id);
+    newGlyf.set(data, pos);
+    pos += (data.length + 3) & ~3;
+  }
+  locaView.setUint32(font.numGlyphs * 4, pos);
+
+  // Long loca offsets and a zeroed checksum adjustment (set again by buildSfnt)
+  const head = new Uint8Array(font.tables.get('head') as Uint8Array);
+  view(head).setInt16(50, 1);
+  view(head).setUint32(8, 0);
+
+  const tables = new Map<string, Uint8Array>();
+  for (const t of SUBSET_TABLES) {
+    const data = font.tables.get(t);
+    if (data) tables.set(t, data);
+  }
+  tables.set('glyf', newGlyf);
+  tables.set('loca', newLoca);
+  tables.set('head', head);
+
+  return buildSfnt(tables, 0x00010000);
+}
+
+/**
+ * CSS @font-face rule embedding a subset of the font as a base64 data URI
+ */
+export function fontFaceRule(font: ParsedFont, family: string, text: string): string {
+  const bytes = subsetFont(font, text);
+  const mime = font.outlines === 'truetype' ? 'font/ttf' : 'font/otf';
+  const base64 = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength).toString('base64');
+  return `@font-face{font-family:'${family}';src:url(data:${mime};base64,${base64})}`;
+}
@@ -0,0 +1,170 @@
+import { readFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+
+/**
+ * Minimal SFNT reader: enough of TTF/OTF and WOFF 1.0 to map code points to glyphs
+ * and read their advance widths. WOFF2 needs Brotli plus glyph transforms and is
+ * not supported; convert those to TTF first.
+ */
+export interface ParsedFont {
+  unitsPerEm: number;
+  numGlyphs: number;
+  // hhea ascender/descender in font units (descender is negative)
+  ascender: number;
+  descender: number;
+  // 'truetype' fonts have glyf outlines; 'cff' (OTF) outlines are not parsed
+  outlines: 'truetype' | 'cff';
+  // Raw (decompressed) tables by tag, e.g. 'glyf', 'cmap'
+  tables: Map<string, Uint8Array>;
+  glyphId(codePoint: number): number;
+  advanceWidth(glyphId: number): number;
+}
+
+function view(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function tag(dv: DataView, offset: number): string {
+  return String.fromCharCode(
+    dv.getUint8(offset),
+    dv.getUint8(offset + 1),
+    dv.getUint8(offset + 2),
+    dv.getUint8(offset + 3)
+  );
+}
+
+function readTables(bytes: Uint8Array): Map<string, Uint8Array> {
+  const dv = view(bytes);
+  const signature = tag(dv, 0);
+  const tables = new Map<string, Uint8Array>();
+
+  if (signature === 'wOF2') {
+    throw new Error('WOFF2 fonts are not supported; use a TTF, OTF or WOFF file');
+  }
+
+  if (signature === 'wOFF') {
+    const numTables = dv.getUint16(12);
+    for (let i = 0; i < numTables; i++) {
+      const rec = 44 + i * 20;
+      const offset = dv.getUint32(rec + 4);
+      const compLength = dv.getUint32(rec + 8);
+      const origLength = dv.getUint32(rec + 12);
+      const data = bytes.subarray(offset, offset + compLength);
+      tables.set(tag(dv, rec), compLength < origLength ? new Uint8Array(inflateSync(data)) : data);
+    }
+    return tables;
+  }
+
+  const version = dv.getUint32(0);
+  if (version !== 0x00010000 && signature !== 'OTTO' && signature !== 'true') {
+    throw new Error('Unrecognized font format');
+  }
+
+  const numTables = dv.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const rec = 12 + i * 16;
+    const offset = dv.getUint32(rec + 8);
+    const length = dv.getUint32(rec + 12);
+    tables.set(tag(dv, rec), bytes.subarray(offset, offset + length));
+  }
+  return tables;
+}
+
+function requireTable(tables: Map<string, Uint8Array>, name: string): DataView {
+  const table = tables.get(name);
+  if (!table) throw new Error(`Font is missing the '${name}' table`);
+  return view(table);
+}
+
+// cmap subtable formats 4 (BMP) and 12 (full Unicode)
+function createCmapLookup(cmap: DataView): (codePoint: number) => number {
+  const numTables = cmap.getUint16(2);
+  let best: { offset: number; format: number; score: number } | undefined;
+
+  for (let i = 0; i < numTables; i++) {
+    const platform = cmap.getUint16(4 + i * 8);
+    const encoding = cmap.getUint16(4 + i * 8 + 2);
+    const offset = cmap.getUint32(4 + i * 8 + 4);
+    const format = cmap.getUint16(offset);
+    const unicode = platform === 0 || (platform === 3 && (encoding === 1 || encoding === 10));
+    if (!unicode || (format !== 4 && format !== 12)) continue;
+
+    const score = format === 12 ? 2 : 1;
+    if (!best || score > best.score) best = { offset, format, score };
+  }
+
+  if (!best) throw new Error('Font has no Unicode cmap');
+  const base = best.offset;
+
+  if (best.format === 12) {
+    const nGroups = cmap.getUint32(base + 12);
+    return (cp) => {
+      let lo = 0;
+      let hi = nGroups - 1;
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const rec = base + 16 + mid * 12;
+        const start = cmap.getUint32(rec);
+        const end = cmap.getUint32(rec + 4);
+        if (cp < start) hi = mid - 1;
+        else if (cp > end) lo = mid + 1;
+        else return cmap.getUint32(rec + 8) + (cp - start);
+      }
+      return 0;
+    };
+  }
+
+  const segCount = cmap.getUint16(base + 6) / 2;
+  const endCodes = base + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  return (cp) => {
+    if (cp > 0xffff) return 0;
+    for (let i = 0; i < segCount; i++) {
+      if (cp > cmap.getUint16(endCodes + i * 2)) continue;
+      const start = cmap.getUint16(startCodes + i * 2);
+      if (cp < start) return 0;
+
+      const delta = cmap.getInt16(idDeltas + i * 2);
+      const rangeOffset = cmap.getUint16(idRangeOffsets + i * 2);
+      if (rangeOffset === 0) return (cp + delta) & 0xffff;
+
+      const glyph = cmap.getUint16(idRangeOffsets + i * 2 + rangeOffset + (cp - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+}
+
+export function parseFont(bytes: Uint8Array): ParsedFont {
+  const tables = readTables(bytes);
+
+  const head = requireTable(tables, 'head');
+  const hhea = requireTable(tables, 'hhea');
+  const maxp = requireTable(tables, 'maxp');
+  const hmtx = requireTable(tables, 'hmtx');
+  const cmap = requireTable(tables, 'cmap');
+
+  const unitsPerEm = head.getUint16(18);
+  const numGlyphs = maxp.getUint16(4);
+  const numberOfHMetrics = hhea.getUint16(34);
+  const lookup = createCmapLookup(cmap);
+
+  return {
+    unitsPerEm,
+    numGlyphs,
+    ascender: hhea.getInt16(4),
+    descender: hhea.getInt16(6),
+    outlines: tables.has('glyf') ? 'truetype' : 'cff',
+    tables,
+    glyphId: lookup,
+    // Glyphs past numberOfHMetrics share the last advance
+    advanceWidth: (glyphId) => hmtx.getUint16(Math.min(glyphId, numberOfHMetrics - 1) * 4),
+  };
+}
+
+export function loadFontFile(path: string): ParsedFont {
+  return parseFont(new Uint8Array(readFileSync(path)));
+}
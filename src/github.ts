@@ -1,15 +1,303 @@
-import type { Repository, GitHubConfig } from './types';
+import type {
+  Repository,
+  RepositoryRef,
+  GitHubConfig,
+  ContributionKind,
+  ContributionTotals,
+  ContributionCacheEntry,
+  ContributionCacheStore,
+  RateLimitUsage,
+  TimeWindow,
+} from './types';
 import { graphql } from '@octokit/graphql';
+import {
+  CACHE,
+  DEFAULT_CONTRIBUTION_KINDS,
+  ENRICHMENT,
+  MEMBERS,
+  RATE_LIMIT,
+  SEARCH,
+  TIME_WINDOW,
+} from './constants';
+import {
+  formatSearchDate,
+  isInTimeWindow,
+  splitTimeWindow,
+  timeWindowQualifier,
+} from './time-window';
+import { emptyCacheEntry } from './cache';
+
+type SearchType = 'ISSUE' | 'DISCUSSION';
+type SearchKind = Exclude<ContributionKind, 'commits'>;
+
+interface SearchItem {
+  // PR, issue or discussion node id
+  id: string;
+  // Value of the search's date field, e.g. mergedAt for merged:
+  date: string;
+  repository: RepositoryRef;
+}
+
+interface SearchResult {
+  repositories: RepositoryRef[];
+  items: SearchItem[];
+  // What GitHub reports for the query vs. how many items were actually paged through
+  totalCount: number;
+  fetchedCount: number;
+}
+
+// Searches only identify repositories; their metadata is fetched once per repository
+// by enrichRepositories instead of once per search result
+const REPOSITORY_FIELDS = `fragment RepositoryFields on Repository {
+  id
+  name
+  nameWithOwner
+  url
+  owner { login }
+}`;
+
+const REPOSITORY_METADATA_FIELDS = `fragment RepositoryMetadata on Repository {
+  ...RepositoryFields
+  stargazerCount
+  isFork
+  isArchived
+  isPrivate
+  description
+  primaryLanguage { name color }
+  repositoryTopics(first: ${ENRICHMENT.MAX_TOPICS}) { nodes { topic { name } } }
+}
+${REPOSITORY_FIELDS}`;
+
+type RepositoryMetadataNode =
+  | (RepositoryRef &
+      Pick<
+        Repository,
+        'stargazerCount' | 'isFork' | 'isArchived' | 'isPrivate' | 'description' | 'primaryLanguage'
+      > & { repositoryTopics: { nodes: Array<{ topic: { name: string } } | null> } })
+  | null;
+
+// Search qualifiers for every contribution kind that comes from the search API.
+// dateField is the qualifier a time window is applied to; search has no review date,
+// so reviews fall back to the PR's last update.
+const CONTRIBUTION_SEARCHES: Record<
+  SearchKind,
+  { type: SearchType; query: (username: string) => string; dateField: string }
+> = {
+  mergedPrs: { type: 'ISSUE', query: (u) => `is:pr is:merged author:${u}`, dateField: 'merged' },
+  // Merged PRs are their own kind, so counting them here too would weigh them twice
+  openedPrs: { type: 'ISSUE', query: (u) => `is:pr -is:merged author:${u}`, dateField: 'created' },
+  reviews: {
+    type: 'ISSUE',
+    query: (u) => `is:pr reviewed-by:${u} -author:${u}`,
+    dateField: 'updated',
+  },
+  issues: { type: 'ISSUE', query: (u) => `is:issue author:${u}`, dateField: 'created' },
+  discussions: { type: 'DISCUSSION', query: (u) => `author:${u}`, dateField: 'created' },
+};
+
+// Search date qualifier -> the node field holding that date
+const DATE_FIELDS: Record<string, 'mergedAt' | 'createdAt' | 'updatedAt'> = {
+  merged: 'mergedAt',
+  created: 'createdAt',
+  updated: 'updatedAt',
+};
+
+type SearchNode = {
+  id: string;
+  mergedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  repository?: RepositoryRef;
+} | null;
+
+type RateLimitInfo = { cost: number; remaining: number; limit: number; resetAt: string } | null;
+
+// Every operation also asks for its cost; the field goes first in the operation's selection
+function withRateLimit(query: string): string {
+  return query.replace('{', '{ rateLimit { cost remaining limit resetAt }');
+}
+
+function operationName(query: string): string {
+  return query.match(/query\s+(\w+)/)?.[1] ?? 'query';
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Exponential backoff with jitter: half the capped exponential delay plus a random half
+ */
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(RATE_LIMIT.MAX_BACKOFF_MS, RATE_LIMIT.BASE_DELAY_MS * 2 ** (attempt - 1));
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+interface GraphqlErrorInfo {
+  status?: number;
+  message: string;
+  headers: Record<string, string | undefined>;
+  errors: Array<{ type?: string }>;
+  // Partial data GraphQL errors can carry alongside their errors
+  data?: Record<string, unknown>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+/**
+ * The parts of a failed request retries and partial results look at, from an
+ * octokit RequestError, a GraphqlResponseError or anything else thrown
+ */
+function graphqlErrorInfo(err: unknown): GraphqlErrorInfo {
+  const fields = isRecord(err) ? err : {};
+  const response = isRecord(fields.response) ? fields.response : {};
+  const headers = isRecord(response.headers)
+    ? response.headers
+    : isRecord(fields.headers)
+      ? fields.headers
+      : {};
+  return {
+    status: typeof fields.status === 'number' ? fields.status : undefined,
+    message: typeof fields.message === 'string' ? fields.message : String(err),
+    headers: headers as GraphqlErrorInfo['headers'],
+    errors: Array.isArray(fields.errors) ? fields.errors : [],
+    data: isRecord(fields.data) ? fields.data : undefined,
+  };
+}
+
+function refOf(repo: RepositoryRef): RepositoryRef {
+  return {
+    id: repo.id,
+    name: repo.name,
+    nameWithOwner: repo.nameWithOwner,
+    url: repo.url,
+    owner: { login: repo.owner.login },
+  };
+}
+
+function addContribution(
+  byRepo: Map<string, Repository>,
+  repo: RepositoryRef,
+  kind: ContributionKind,
+  count: number
+): void {
+  const owner = repo.owner?.login || (repo.nameWithOwner?.split('/')?.[0] ?? '');
+  const name = repo.name || (repo.nameWithOwner?.split('/')?.[1] ?? '');
+  const key = `${owner}/${name}`.toLowerCase();
+
+  let existing = byRepo.get(key);
+  if (!existing) {
+    existing = {
+      id: repo.id,
+      name,
+      nameWithOwner: `${owner}/${name}`,
+      url: repo.url,
+      // Placeholders until enrichRepositories fills in the metadata
+      stargazerCount: 0,
+      isFork: false,
+      isArchived: false,
+      isPrivate: false,
+      description: null,
+      primaryLanguage: null,
+      topics: [],
+      owner: { login: owner },
+      contribs: 0,
+      contributions: {},
+    };
+    byRepo.set(key, existing);
+  }
+
+  existing.contribs += count;
+  existing.contributions[kind] = (existing.contributions[kind] ?? 0) + count;
+}
+
+interface ContributionFetchOptions {
+  kinds?: ContributionKind[];
+  window?: TimeWindow;
+  // Forks are left out unless asked for
+  includeForks?: boolean;
+}
+
+// One user's counts before enrichment; entry is the cache entry to store afterwards
+interface CollectedContributions {
+  repositories: Repository[];
+  entry?: ContributionCacheEntry;
+}
+
+/**
+ * Repositories with fetched metadata applied, merged by node id after renames
+ */
+function withMetadata(
+  repos: Repository[],
+  metadata: Map<string, RepositoryMetadataNode>
+): Repository[] {
+  const byId = new Map<string, Repository>();
+  for (const repo of repos) {
+    const node = metadata.get(repo.nameWithOwner.toLowerCase());
+    if (!node) continue;
+
+    const existing = byId.get(node.id);
+    if (existing) {
+      existing.contribs += repo.contribs;
+      for (const [kind, count] of Object.entries(repo.contributions) as Array<
+        [ContributionKind, number]
+      >) {
+        existing.contributions[kind] = (existing.contributions[kind] ?? 0) + count;
+      }
+      continue;
+    }
+
+    byId.set(node.id, {
+      ...repo,
+      ...refOf(node),
+      stargazerCount: node.stargazerCount,
+      isFork: node.isFork,
+      isArchived: node.isArchived,
+      isPrivate: node.isPrivate,
+      description: node.description,
+      primaryLanguage: node.primaryLanguage,
+      topics: node.repositoryTopics.nodes.flatMap((n) => (n ? [n.topic.name] : [])),
+      contributions: { ...repo.contributions },
+    });
+  }
+
+  return Array.from(byId.values());
+}
 
 export class GitHubClient {
   private token: string;
   private baseUrl: string;
   private timeoutMs: number;
+  private onWarning: (message: string) => void;
+  private cache?: ContributionCacheStore;
+  private refresh: boolean;
+  private waitForReset: boolean;
+  private onDebug: (message: string) => void;
+  private contributionTotals: ContributionTotals = {};
+  private rateLimit: RateLimitUsage = { queries: 0, used: 0 };
 
   constructor(config: GitHubConfig) {
     this.token = config.token;
     this.timeoutMs = config.timeoutMs;
     this.baseUrl = config.baseUrl;
+    this.onWarning = config.onWarning ?? (() => {});
+    this.cache = config.cache;
+    this.refresh = config.refresh ?? false;
+    this.waitForReset = config.waitForReset ?? false;
+    this.onDebug = config.onDebug ?? (() => {});
+  }
+
+  /**
+   * Rate-limit points used by this client so far, and what is left
+   */
+  getRateLimitUsage(): RateLimitUsage {
+    return { ...this.rateLimit };
+  }
+
+  /**
+   * Per-kind counts reported by GitHub vs. actually enumerated during the last fetch
+   */
+  getContributionTotals(): ContributionTotals {
+    return { ...this.contributionTotals };
   }
 
   private async graphql<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
@@ -24,27 +312,102 @@ export class GitHubClient {
       },
     });
 
-    const maxAttempts = 3;
+    const name = operationName(query);
     let lastError: unknown;
 
-    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    for (let attempt = 1; attempt <= RATE_LIMIT.MAX_ATTEMPTS; attempt++) {
+      if (this.rateLimit.remaining === 0 && this.rateLimit.resetAt) {
+        await this.waitUntil(new Date(this.rateLimit.resetAt));
+      }
+
       try {
-        return await client<T>(query, variables);
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      } catch (err: any) {
+        const data = await client<T & { rateLimit?: RateLimitInfo }>(withRateLimit(query), variables);
+        this.recordRateLimit(name, data.rateLimit);
+        return data;
+      } catch (err) {
         lastError = err;
-        const status = typeof err?.status === 'number' ? err.status : undefined;
-        if (status && status >= 500 && status < 600 && attempt < maxAttempts) {
-          await new Promise((r) => setTimeout(r, attempt * 500));
-          continue;
-        }
-        break;
+        const info = graphqlErrorInfo(err);
+        if (info.data?.rateLimit) this.recordRateLimit(name, info.data.rateLimit as RateLimitInfo);
+        const delay = this.retryDelay(err, attempt);
+        if (delay === undefined || attempt === RATE_LIMIT.MAX_ATTEMPTS) break;
+
+        this.onDebug(`${name} failed (${info.status ?? info.message}), retrying in ${Math.ceil(delay / 1000)}s`);
+        await sleep(delay);
       }
     }
 
     throw lastError instanceof Error ? lastError : new Error(String(lastError));
   }
 
+  private recordRateLimit(name: string, info: RateLimitInfo | undefined) {
+    this.rateLimit.queries++;
+    // GitHub Enterprise Server without rate limiting returns null
+    if (!info) return;
+
+    this.rateLimit = {
+      queries: this.rateLimit.queries,
+      used: this.rateLimit.used + info.cost,
+      remaining: info.remaining,
+      limit: info.limit,
+      resetAt: info.resetAt,
+    };
+    this.onDebug(`${name}: cost ${info.cost}, ${info.remaining}/${info.limit} points left`);
+  }
+
+  /**
+   * How long to wait before retrying a failed request, or undefined to give up.
+   * Rate limits honor retry-after, then x-ratelimit-reset, then back off;
+   * 5xx errors back off.
+   */
+  private retryDelay(err: unknown, attempt: number): number | undefined {
+    const { status, message, headers, errors } = graphqlErrorInfo(err);
+    const rateLimited =
+      status === 429 ||
+      errors.some((e) => e.type === 'RATE_LIMITED') ||
+      (status === 403 &&
+        (headers['retry-after'] !== undefined ||
+          headers['x-ratelimit-remaining'] === '0' ||
+          /rate limit/i.test(message)));
+
+    if (!rateLimited) {
+      return status !== undefined && status >= 500 && status < 600 ? backoffDelay(attempt) : undefined;
+    }
+
+    let delay = backoffDelay(attempt);
+    const retryAfter = Number(headers['retry-after']);
+    const reset = Number(headers['x-ratelimit-reset']);
+
+    if (headers['retry-after'] !== undefined && Number.isFinite(retryAfter)) {
+      delay = retryAfter * 1000;
+    } else if (headers['x-ratelimit-remaining'] === '0' && Number.isFinite(reset)) {
+      delay = Math.max(0, reset * 1000 - Date.now()) + RATE_LIMIT.BASE_DELAY_MS;
+    }
+
+    if (delay > RATE_LIMIT.MAX_AUTO_WAIT_MS && !this.waitForReset) {
+      throw new Error(
+        `GitHub rate limit exhausted until ${new Date(Date.now() + delay).toISOString()}; ` +
+          'rerun later or wait for the reset with --wait-for-reset'
+      );
+    }
+    return delay;
+  }
+
+  // Called before a request once the budget is known to be spent
+  private async waitUntil(resetAt: Date) {
+    const delay = resetAt.getTime() - Date.now() + RATE_LIMIT.BASE_DELAY_MS;
+    if (delay <= 0) return;
+
+    if (delay > RATE_LIMIT.MAX_AUTO_WAIT_MS && !this.waitForReset) {
+      throw new Error(
+        `GitHub rate limit exhausted until ${resetAt.toISOString()}; ` +
+          'rerun later or wait for the reset with --wait-for-reset'
+      );
+    }
+
+    this.onWarning(`GitHub rate limit exhausted, waiting ${Math.ceil(delay / 1000)}s for the reset`);
+    await sleep(delay);
+  }
+
   async resolveUsername(username?: string): Promise<string> {
     if (username) return username;
 
@@ -55,95 +418,573 @@ export class GitHubClient {
     return data.viewer.login;
   }
 
-  async searchRepositoriesByPRs(query: string): Promise<Repository[]> {
-    const repos: Repository[] = [];
-    let hasNextPage = true;
-    let cursor: string | null = null;
+  /**
+   * Search returns at most 1000 results per query. When a query reports more than that
+   * and a date field is given, the window is bisected until every slice fits.
+   */
+  async searchContributedRepositories(
+    query: string,
+    type: SearchType = 'ISSUE',
+    dateField?: string,
+    window?: TimeWindow
+  ): Promise<SearchResult> {
+    const qualifier = dateField ? timeWindowQualifier(dateField, window) : '';
+    const fullQuery = [query, qualifier].filter(Boolean).join(' ');
 
-    while (hasNextPage && repos.length < 1200) {
-      type SearchResponse = {
-        search: {
-          nodes: Array<{
-            repository?: {
-              name: string;
-              nameWithOwner: string;
-              stargazerCount: number;
-              isFork: boolean;
-              owner: { login: string };
-            };
-          }>;
-          pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    let page = await this.searchPage(fullQuery, type, null);
+    const totalCount = type === 'DISCUSSION' ? page.discussionCount : page.issueCount;
+
+    if (dateField && totalCount > SEARCH.MAX_RESULTS) {
+      const since = window?.since ?? new Date(SEARCH.EARLIEST_DATE);
+      const until = window?.until ?? new Date();
+
+      if (until.getTime() - since.getTime() > 1000) {
+        // Whole seconds, so the two halves never overlap in the qualifier
+        const mid = new Date(Math.floor((since.getTime() + until.getTime()) / 2000) * 1000);
+        const left = await this.searchContributedRepositories(query, type, dateField, {
+          since,
+          until: mid,
+        });
+        const right = await this.searchContributedRepositories(query, type, dateField, {
+          since: new Date(mid.getTime() + 1000),
+          until,
+        });
+
+        return {
+          repositories: [...left.repositories, ...right.repositories],
+          items: [...left.items, ...right.items],
+          totalCount,
+          fetchedCount: left.fetchedCount + right.fetchedCount,
         };
+      }
+    }
+
+    const repositories: RepositoryRef[] = [];
+    const items: SearchItem[] = [];
+    const dateKey = DATE_FIELDS[dateField ?? 'created'] ?? 'createdAt';
+    let fetchedCount = 0;
+
+    for (;;) {
+      for (const node of page.nodes || []) {
+        fetchedCount++;
+        const repo = node?.repository;
+        if (!node || !repo) continue;
+        repositories.push(repo);
+        items.push({ id: node.id, date: node[dateKey] ?? node.createdAt, repository: repo });
+      }
+
+      if (!page.pageInfo?.hasNextPage || !page.pageInfo.endCursor) break;
+      page = await this.searchPage(fullQuery, type, page.pageInfo.endCursor);
+    }
+
+    return { repositories, items, totalCount, fetchedCount };
+  }
+
+  private async searchPage(query: string, type: SearchType, cursor: string | null) {
+    type SearchResponse = {
+      search: {
+        issueCount: number;
+        discussionCount: number;
+        nodes: SearchNode[];
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
       };
+    };
 
-      const data: SearchResponse = await this.graphql<SearchResponse>(
-        `query SearchPRs($q: String!, $first: Int!, $after: String) {
-          search(query: $q, type: ISSUE, first: $first, after: $after) {
-            nodes {
-              ... on PullRequest {
-                repository {
-                  name
-                  nameWithOwner
-                  stargazerCount
-                  isFork
-                  owner { login }
-                }
-              }
+    const data = await this.graphql<SearchResponse>(
+      `query SearchContributions($q: String!, $type: SearchType!, $first: Int!, $after: String) {
+        search(query: $q, type: $type, first: $first, after: $after) {
+          issueCount
+          discussionCount
+          nodes {
+            ... on PullRequest { id mergedAt createdAt updatedAt repository { ...RepositoryFields } }
+            ... on Issue { id createdAt updatedAt repository { ...RepositoryFields } }
+            ... on Discussion { id createdAt updatedAt repository { ...RepositoryFields } }
+          }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+      ${REPOSITORY_FIELDS}`,
+      { q: query, type, first: SEARCH.PAGE_SIZE, after: cursor }
+    );
+
+    return data.search;
+  }
+
+  /**
+   * Commit counts per repository from the user's contribution calendar.
+   * contributionsCollection spans at most one year, so longer windows are split and
+   * an open-ended window walks every contribution year.
+   */
+  async fetchCommitContributions(
+    username: string,
+    window?: TimeWindow
+  ): Promise<Array<{ repository: RepositoryRef; count: number }>> {
+    const result: Array<{ repository: RepositoryRef; count: number }> = [];
+    for (const range of await this.commitRanges(username, window)) {
+      result.push(...(await this.fetchCommitRange(username, range)));
+    }
+    return result;
+  }
+
+  private async commitRanges(username: string, window?: TimeWindow): Promise<TimeWindow[]> {
+    if (window?.since) return splitTimeWindow(window);
+
+    const years = await this.graphql<{
+      user: { contributionsCollection: { contributionYears: number[] } } | null;
+    }>(
+      `query ContributionYears($login: String!) {
+        user(login: $login) { contributionsCollection { contributionYears } }
+      }`,
+      { login: username }
+    );
+
+    return (years.user?.contributionsCollection.contributionYears ?? [])
+      .map((year) => ({
+        since: new Date(Date.UTC(year, 0, 1)),
+        until: new Date(Date.UTC(year + 1, 0, 1) - 1000),
+      }))
+      .filter((range) => !window?.until || range.since <= window.until)
+      .map((range) =>
+        window?.until && range.until > window.until ? { ...range, until: window.until } : range
+      );
+  }
+
+  private async fetchCommitRange(
+    username: string,
+    range: TimeWindow
+  ): Promise<Array<{ repository: RepositoryRef; count: number }>> {
+    const from = formatSearchDate(range.since as Date);
+    const to = formatSearchDate(range.until ?? new Date());
+
+    type CommitsResponse = {
+      user: {
+        contributionsCollection: {
+          commitContributionsByRepository: Array<{
+            contributions: { totalCount: number };
+            repository: RepositoryRef;
+          }>;
+        };
+      } | null;
+    };
+
+    const data = await this.graphql<CommitsResponse>(
+      `query CommitContributions($login: String!, $from: DateTime!, $to: DateTime!) {
+        user(login: $login) {
+          contributionsCollection(from: $from, to: $to) {
+            commitContributionsByRepository(maxRepositories: ${TIME_WINDOW.MAX_COMMIT_REPOSITORIES}) {
+              contributions { totalCount }
+              repository { ...RepositoryFields }
             }
-            pageInfo { hasNextPage endCursor }
           }
-        }`,
-        { q: query, first: 100, after: cursor }
+        }
+      }
+      ${REPOSITORY_FIELDS}`,
+      { login: username, from, to }
+    );
+
+    const entries = data.user?.contributionsCollection.commitContributionsByRepository ?? [];
+    if (entries.length >= TIME_WINDOW.MAX_COMMIT_REPOSITORIES) {
+      // GitHub cuts the list off at the limit without saying whether there were more
+      this.onWarning(
+        `Commits from ${from} to ${to} were listed for ${entries.length} repositories, the most ` +
+          'GitHub returns; commits to any other repositories in that range are missing'
       );
+    }
 
-      const page = data.search;
+    const result: Array<{ repository: RepositoryRef; count: number }> = [];
+    for (const entry of entries) {
+      if (!entry.repository) continue;
+      result.push({ repository: entry.repository, count: entry.contributions.totalCount });
+    }
+    return result;
+  }
 
-      for (const node of page.nodes || []) {
-        const repo = node?.repository;
-        if (!repo || repo.isFork) continue;
+  async fetchAllTimeContributedRepositories(
+    username: string,
+    kinds: ContributionKind[] = DEFAULT_CONTRIBUTION_KINDS
+  ): Promise<Repository[]> {
+    return this.fetchContributedRepositories(username, { kinds });
+  }
 
-        // Create a complete Repository object with contribs
-        const completeRepo: Repository = {
-          ...repo,
-          contribs: 1, // Each PR counts as 1 contribution
-        };
+  async fetchContributedRepositories(
+    username: string,
+    options: ContributionFetchOptions = {}
+  ): Promise<Repository[]> {
+    const byMember = await this.fetchMembersContributedRepositories([username], options);
+    return byMember.get(username) ?? [];
+  }
+
+  /**
+   * Contributed repositories of several users, each with only that user's counts.
+   * Repository metadata is fetched once for all of them, so a repository many
+   * members touched costs a single lookup. Contribution totals are summed.
+   */
+  async fetchMembersContributedRepositories(
+    usernames: string[],
+    options: ContributionFetchOptions = {}
+  ): Promise<Map<string, Repository[]>> {
+    const { kinds = DEFAULT_CONTRIBUTION_KINDS, window, includeForks = false } = options;
+    this.contributionTotals = {};
+
+    const collected = new Map<string, CollectedContributions>();
+    for (const username of usernames) {
+      if (collected.has(username)) continue;
+      collected.set(
+        username,
+        this.cache
+          ? await this.collectCachedContributions(username, kinds, window)
+          : await this.collectContributions(username, kinds, window)
+      );
+    }
+
+    const metadata = await this.fetchRepositoryMetadata(
+      [...collected.values()].flatMap(({ repositories }) => repositories)
+    );
+
+    const byMember = new Map<string, Repository[]>();
+    for (const [username, { repositories, entry }] of collected) {
+      const enriched = withMetadata(repositories, metadata);
+      if (entry) this.saveCacheEntry(entry, repositories, enriched);
+      byMember.set(username, includeForks ? enriched : enriched.filter((repo) => !repo.isFork));
+    }
+    return byMember;
+  }
+
+  /**
+   * Logins of an organization's members, or of one of its teams by slug. Only
+   * members visible to the token are listed.
+   */
+  async resolveMembers(org: string, team?: string): Promise<string[]> {
+    type MemberPage = {
+      nodes: Array<{ login: string } | null>;
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+    };
+    type MembersResponse = {
+      organization: { membersWithRole?: MemberPage; team?: { members: MemberPage } | null } | null;
+    };
+
+    const logins: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const data: MembersResponse = await this.graphql<MembersResponse>(
+        team
+          ? `query TeamMembers($org: String!, $team: String!, $first: Int!, $after: String) {
+              organization(login: $org) {
+                team(slug: $team) {
+                  members(first: $first, after: $after) { nodes { login } pageInfo { hasNextPage endCursor } }
+                }
+              }
+            }`
+          : `query OrganizationMembers($org: String!, $first: Int!, $after: String) {
+              organization(login: $org) {
+                membersWithRole(first: $first, after: $after) { nodes { login } pageInfo { hasNextPage endCursor } }
+              }
+            }`,
+        { org, ...(team && { team }), first: MEMBERS.PAGE_SIZE, after: cursor }
+      );
+
+      if (!data.organization) throw new Error(`Organization not found: ${org}`);
+      const page = team ? data.organization.team?.members : data.organization.membersWithRole;
+      if (!page) throw new Error(`Team not found: ${org}/${team}`);
+
+      for (const node of page.nodes) if (node) logins.push(node.login);
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return logins;
+  }
+
+  private addTotals(kind: ContributionKind, totals: { reported: number; fetched: number }) {
+    const sum = this.contributionTotals[kind] ?? { reported: 0, fetched: 0 };
+    this.contributionTotals[kind] = {
+      reported: sum.reported + totals.reported,
+      fetched: sum.fetched + totals.fetched,
+    };
+  }
+
+  /**
+   * One user's contribution counts per repository, without metadata
+   */
+  private async collectContributions(
+    username: string,
+    kinds: ContributionKind[],
+    window?: TimeWindow
+  ): Promise<CollectedContributions> {
+    const byRepo = new Map<string, Repository>();
+
+    for (const kind of new Set(kinds)) {
+      if (kind === 'commits') {
+        let total = 0;
+        for (const { repository, count } of await this.fetchCommitContributions(username, window)) {
+          addContribution(byRepo, repository, kind, count);
+          total += count;
+        }
+        this.addTotals(kind, { reported: total, fetched: total });
+        continue;
+      }
+
+      const search = CONTRIBUTION_SEARCHES[kind];
+      const ranges = window ? splitTimeWindow(window) : [undefined];
+      const totals = { reported: 0, fetched: 0 };
 
-        repos.push(completeRepo);
+      for (const range of ranges) {
+        const result = await this.searchContributedRepositories(
+          search.query(username),
+          search.type,
+          search.dateField,
+          range
+        );
+
+        for (const repo of result.repositories) addContribution(byRepo, repo, kind, 1);
+        totals.reported += result.totalCount;
+        totals.fetched += result.fetchedCount;
       }
 
-      hasNextPage = page.pageInfo?.hasNextPage || false;
-      cursor = page.pageInfo?.endCursor || null;
+      this.addTotals(kind, totals);
+      this.warnIfIncomplete(kind, totals);
     }
 
-    return repos;
+    return { repositories: Array.from(byRepo.values()) };
   }
 
-  async fetchAllTimeContributedRepositories(username: string): Promise<Repository[]> {
-    const authoredQuery = `is:pr is:merged author:${username}`;
-    const authored = await this.searchRepositoriesByPRs(authoredQuery);
+  private warnIfIncomplete(kind: ContributionKind, totals: { reported: number; fetched: number }) {
+    if (totals.fetched < totals.reported) {
+      this.onWarning(
+        `Only ${totals.fetched} of ${totals.reported} ${kind} could be enumerated; ` +
+          'some contributions are missing from the treemap'
+      );
+    }
+  }
+
+  /**
+   * Same counts as collectContributions, but searches only ask for contributions
+   * since the last sync and closed commit ranges are reused. Searches are cached from
+   * the earliest window start asked for so far (all time once an unwindowed run has
+   * synced); windows are applied to the cached dates.
+   */
+  private async collectCachedContributions(
+    username: string,
+    kinds: ContributionKind[],
+    window?: TimeWindow
+  ): Promise<CollectedContributions> {
+    const cache = this.cache as ContributionCacheStore;
+    const entry =
+      (!this.refresh && cache.load(this.baseUrl, username)) ||
+      emptyCacheEntry(this.baseUrl, username);
+
+    const remember = (repo: RepositoryRef) => {
+      entry.repositories[repo.id] = refOf(repo);
+    };
+
+    const counts: Array<{ kind: ContributionKind; repository: string; count: number }> = [];
+
+    for (const kind of new Set(kinds)) {
+      if (kind === 'commits') {
+        let total = 0;
+        for (const [repository, count] of await this.syncCommits(entry, username, window, remember)) {
+          counts.push({ kind, repository, count });
+          total += count;
+        }
+        this.addTotals(kind, { reported: total, fetched: total });
+        continue;
+      }
+
+      const missed = await this.syncSearch(entry, kind, username, window, remember);
+      let inWindow = 0;
+      for (const item of Object.values(entry.searches[kind]?.items ?? {})) {
+        if (!isInTimeWindow(new Date(item.date), window)) continue;
+        counts.push({ kind, repository: item.repository, count: 1 });
+        inWindow++;
+      }
+
+      const totals = { reported: inWindow + missed, fetched: inWindow };
+      this.addTotals(kind, totals);
+      this.warnIfIncomplete(kind, totals);
+    }
 
     const byRepo = new Map<string, Repository>();
+    for (const { kind, repository, count } of counts) {
+      const repo = entry.repositories[repository];
+      if (repo) addContribution(byRepo, repo, kind, count);
+    }
 
-    for (const repo of authored) {
-      const owner = repo.owner?.login || (repo.nameWithOwner?.split('/')?.[0] ?? '');
-      const name = repo.name || (repo.nameWithOwner?.split('/')?.[1] ?? '');
-      const key = `${owner}/${name}`.toLowerCase();
-
-      const existing = byRepo.get(key);
-      if (existing) {
-        existing.contribs += 1;
-      } else {
-        byRepo.set(key, {
-          name,
-          nameWithOwner: `${owner}/${name}`,
-          stargazerCount: repo.stargazerCount || 0,
-          isFork: repo.isFork || false,
-          owner: { login: owner },
-          contribs: 1,
-        });
+    return { repositories: Array.from(byRepo.values()), entry };
+  }
+
+  /**
+   * Store the cache entry once its repositories are enriched. Enrichment also catches
+   * renames, and repositories deleted since they were cached.
+   */
+  private saveCacheEntry(
+    entry: ContributionCacheEntry,
+    collected: Repository[],
+    enriched: Repository[]
+  ): void {
+    const resolved = new Set(enriched.map((repo) => repo.id));
+    for (const repo of collected) {
+      if (!resolved.has(repo.id)) delete entry.repositories[repo.id];
+    }
+    for (const repo of enriched) entry.repositories[repo.id] = refOf(repo);
+    (this.cache as ContributionCacheStore).save(entry);
+  }
+
+  /**
+   * Search for a kind's contributions since its last sync and merge them into the
+   * cache entry. An entry that doesn't reach back to the window's start is searched
+   * again from there, and cached opened PRs merged in the meantime are dropped.
+   * Returns how many could not be enumerated.
+   */
+  private async syncSearch(
+    entry: ContributionCacheEntry,
+    kind: SearchKind,
+    username: string,
+    window: TimeWindow | undefined,
+    remember: (repo: RepositoryRef) => void
+  ): Promise<number> {
+    const search = CONTRIBUTION_SEARCHES[kind];
+    const cached = entry.searches[kind];
+    const startedAt = new Date();
+    const covered =
+      cached?.syncedAt !== undefined &&
+      (cached.since === undefined ||
+        (window?.since !== undefined && window.since.getTime() >= Date.parse(cached.since)));
+    const since = covered
+      ? new Date(Date.parse(cached.syncedAt as string) - CACHE.SYNC_OVERLAP_MS)
+      : window?.since;
+
+    const result = await this.searchContributedRepositories(
+      search.query(username),
+      search.type,
+      search.dateField,
+      since && { since }
+    );
+
+    const items = { ...cached?.items };
+    for (const item of result.items) {
+      remember(item.repository);
+      items[item.id] = { date: item.date, repository: item.repository.id };
+    }
+
+    // Opened PRs cached while open and merged since then are out of the search above but
+    // still cached; without dropping them they would count as both opened and merged
+    if (kind === 'openedPrs' && cached && Object.keys(cached.items).length > 0) {
+      const merged = CONTRIBUTION_SEARCHES.mergedPrs;
+      const mergedSince = await this.searchContributedRepositories(
+        merged.query(username),
+        merged.type,
+        merged.dateField,
+        since && { since }
+      );
+      for (const item of mergedSince.items) delete items[item.id];
+    }
+
+    // An incomplete sync keeps the old sync time and range (none on a first sync),
+    // so the next run searches the gap again
+    const missed = Math.max(0, result.totalCount - result.fetchedCount);
+    const syncedAt = missed === 0 ? startedAt.toISOString() : cached?.syncedAt;
+    const rangeSince = missed === 0 && !covered ? window?.since?.toISOString() : cached?.since;
+    entry.searches[kind] = {
+      ...(syncedAt && { syncedAt }),
+      ...(rangeSince && { since: rangeSince }),
+      items,
+    };
+    return missed;
+  }
+
+  /**
+   * Commit counts by repository id. Ranges that closed before the sync overlap are
+   * stored and reused; the open range (the current year) is always fetched.
+   */
+  private async syncCommits(
+    entry: ContributionCacheEntry,
+    username: string,
+    window: TimeWindow | undefined,
+    remember: (repo: RepositoryRef) => void
+  ): Promise<Map<string, number>> {
+    const now = new Date();
+    const totals = new Map<string, number>();
+
+    for (const range of await this.commitRanges(username, window)) {
+      const until = range.until ?? now;
+      const key = `${formatSearchDate(range.since as Date)}/${formatSearchDate(until)}`;
+      let counts = entry.commits[key];
+
+      if (!counts) {
+        counts = {};
+        for (const { repository, count } of await this.fetchCommitRange(username, range)) {
+          remember(repository);
+          counts[repository.id] = (counts[repository.id] ?? 0) + count;
+        }
+        if (until.getTime() < now.getTime() - CACHE.SYNC_OVERLAP_MS) entry.commits[key] = counts;
+      }
+
+      for (const [id, count] of Object.entries(counts)) {
+        totals.set(id, (totals.get(id) ?? 0) + count);
       }
     }
 
-    return Array.from(byRepo.values());
+    return totals;
+  }
+
+  /**
+   * Fill in stars, fork and archive status, visibility, description, language and
+   * topics with aliased repository() lookups, ENRICHMENT.BATCH_SIZE per query.
+   * Repositories that no longer resolve are left out; renamed ones take their
+   * current name and are merged with any entry already under it.
+   */
+  async enrichRepositories(repos: Repository[]): Promise<Repository[]> {
+    return withMetadata(repos, await this.fetchRepositoryMetadata(repos));
+  }
+
+  /**
+   * Metadata by lower-cased nameWithOwner, null for repositories that no longer resolve
+   */
+  private async fetchRepositoryMetadata(
+    repos: Repository[]
+  ): Promise<Map<string, RepositoryMetadataNode>> {
+    const targets = new Map<string, { owner: string; name: string }>();
+    for (const repo of repos) {
+      targets.set(repo.nameWithOwner.toLowerCase(), { owner: repo.owner.login, name: repo.name });
+    }
+
+    const metadata = new Map<string, RepositoryMetadataNode>();
+    const keys = [...targets.keys()];
+
+    for (let i = 0; i < keys.length; i += ENRICHMENT.BATCH_SIZE) {
+      const batch = keys.slice(i, i + ENRICHMENT.BATCH_SIZE);
+      const variables: Record<string, string> = {};
+      const params: string[] = [];
+      const fields: string[] = [];
+
+      batch.forEach((key, index) => {
+        const target = targets.get(key) as { owner: string; name: string };
+        variables[`owner${index}`] = target.owner;
+        variables[`name${index}`] = target.name;
+        params.push(`$owner${index}: String!, $name${index}: String!`);
+        fields.push(
+          `r${index}: repository(owner: $owner${index}, name: $name${index}) { ...RepositoryMetadata }`
+        );
+      });
+
+      let data: Record<string, RepositoryMetadataNode>;
+      try {
+        data = await this.graphql<Record<string, RepositoryMetadataNode>>(
+          `query EnrichRepositories(${params.join(', ')}) {
+            ${fields.join('\n            ')}
+          }
+          ${REPOSITORY_METADATA_FIELDS}`,
+          variables
+        );
+      } catch (err) {
+        // Missing repositories come back as null alongside NOT_FOUND errors
+        const { data: partial, errors } = graphqlErrorInfo(err);
+        if (!partial || !errors.every((e) => e.type === 'NOT_FOUND')) throw err;
+        data = partial as Record<string, RepositoryMetadataNode>;
+      }
+
+      batch.forEach((key, index) => metadata.set(key, data[`r${index}`] ?? null));
+    }
+
+    return metadata;
   }
 }
@@ -0,0 +1,49 @@
+import type { GroupBy, NormalizedRepository, RepositoryGroup } from './types';
+import { GROUPING } from './constants';
+
+export const GROUP_BY_MODES: readonly GroupBy[] = ['none', 'owner', 'custom'];
+
+/**
+ * Custom group of a repo: the first group listing either its owner or its full name
+ */
+function customGroupOf(repo: NormalizedRepository, groups: Record<string, string[]>): string {
+  const owner = repo.owner.toLowerCase();
+  const full = repo.id.toLowerCase();
+
+  for (const [group, members] of Object.entries(groups)) {
+    for (const member of members) {
+      const m = member.toLowerCase();
+      if (m === owner || m === full) return group;
+    }
+  }
+
+  return GROUPING.OTHER_LABEL;
+}
+
+export function groupRepositories(
+  items: NormalizedRepository[],
+  groupBy: Exclude<GroupBy, 'none'>,
+  groups: Record<string, string[]> = {}
+): RepositoryGroup[] {
+  const byGroup = new Map<string, RepositoryGroup>();
+
+  for (const repo of items) {
+    const label = groupBy === 'owner' ? repo.owner : customGroupOf(repo, groups);
+    const key = label.toLowerCase();
+
+    let group = byGroup.get(key);
+    if (!group) {
+      group = { id: `group:${key}`, label, children: [] };
+      byGroup.set(key, group);
+    }
+    group.children.push(repo);
+  }
+
+  return Array.from(byGroup.values());
+}
+
+export function isRepository(
+  d: NormalizedRepository | { children?: unknown }
+): d is NormalizedRepository {
+  return !('children' in d);
+}
@@ -0,0 +1,105 @@
+import { escapeXml } from './utils';
+
+const STYLE = `
+body { margin: 0; padding: 16px; font-family: system-ui, sans-serif; }
+svg { display: block; max-width: 100%; height: auto; }
+svg a { cursor: pointer; }
+svg a:hover rect { filter: brightness(1.15); }
+svg [data-group] > rect { pointer-events: all; cursor: zoom-in; }
+svg.zoomed [data-group] > rect { cursor: zoom-out; }
+#tooltip { position: fixed; pointer-events: none; display: none; white-space: pre; padding: 6px 8px;
+  border-radius: 6px; background: rgba(22, 27, 34, 0.95); color: #e6edf3; font-size: 12px; line-height: 1.5;
+  box-shadow: 0 4px 12px rgba(0, 0, 0, 0.4); }
+`;
+
+// Tooltips from each tile's <title>, and group zoom by animating the viewBox
+const SCRIPT = `
+(() => {
+  const svg = document.querySelector('svg');
+  const tooltip = document.getElementById('tooltip');
+  const full = svg.viewBox.baseVal;
+  const home = [full.x, full.y, full.width, full.height];
+  let current = home;
+  let zoomedTo = null;
+
+  // Tiles are interactive here, so screen readers should reach them
+  if (svg.getAttribute('role') === 'img') svg.setAttribute('role', 'group');
+
+  for (const link of svg.querySelectorAll('a')) {
+    const title = link.querySelector('title');
+    if (!title) continue;
+    link.dataset.tip = title.textContent;
+    link.setAttribute('aria-label', title.textContent.replace(/\\n/g, ', '));
+    title.remove();
+  }
+
+  svg.addEventListener('mousemove', (event) => {
+    const link = event.target.closest('a[data-tip]');
+    if (!link) {
+      tooltip.style.display = 'none';
+      return;
+    }
+    tooltip.textContent = link.dataset.tip;
+    tooltip.style.display = 'block';
+    const x = Math.min(event.clientX + 12, window.innerWidth - tooltip.offsetWidth - 4);
+    const y = Math.min(event.clientY + 12, window.innerHeight - tooltip.offsetHeight - 4);
+    tooltip.style.left = x + 'px';
+    tooltip.style.top = y + 'px';
+  });
+  svg.addEventListener('mouseleave', () => (tooltip.style.display = 'none'));
+
+  const animate = (target) => {
+    const from = current;
+    const start = performance.now();
+    const step = (now) => {
+      const t = Math.min(1, (now - start) / 300);
+      const ease = t * (2 - t);
+      current = from.map((v, i) => v + (target[i] - v) * ease);
+      svg.setAttribute('viewBox', current.join(' '));
+      if (t < 1) requestAnimationFrame(step);
+    };
+    requestAnimationFrame(step);
+  };
+
+  const zoom = (group) => {
+    zoomedTo = group;
+    svg.classList.toggle('zoomed', Boolean(group));
+    if (!group) return animate(home);
+    const box = group.querySelector('rect').getBBox();
+    animate([box.x, box.y, box.width, box.height]);
+  };
+
+  svg.addEventListener('click', (event) => {
+    if (event.target.closest('a')) return;
+    const group = event.target.closest('[data-group]');
+    zoom(group && group !== zoomedTo ? group : null);
+  });
+  document.addEventListener('keydown', (event) => {
+    if (event.key === 'Escape') zoom(null);
+  });
+})();
+`;
+
+/**
+ * Self-contained HTML page around a treemap SVG: hover tooltips with each tile's
+ * details, tiles linking to their repositories, and click-to-zoom on groups
+ */
+export function svgToHtml(svg: string, title = 'GitHub contribution treemap'): string {
+  const inline = svg.replace(/^<\?xml[^>]*>\s*/, '');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+${inline}
+<div id="tooltip" role="tooltip"></div>
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+}
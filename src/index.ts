@@ -1,11 +1,82 @@
 import { GitHubClient } from './github';
 import { TreemapRenderer } from './treemap-renderer';
-import { computeTreemapLayout } from './d3-wrapper';
-import { DEFAULT_CONFIG, DEFAULT_GITHUB_CONFIG } from './constants';
+import { computeTreemapLayout, createLayoutState } from './d3-wrapper';
+import { DEFAULT_CONFIG, DEFAULT_GITHUB_CONFIG, DEFAULT_CONTRIBUTION_KINDS } from './constants';
+import { weightedContributionScore } from './utils';
+import { resolveTimeWindow } from './time-window';
+import { themeConfig } from './themes';
+import { loadFontFile } from './font';
+import { createFontMeasurer } from './text-metrics';
+import { createTreemapData } from './data';
+import { FileContributionCache } from './cache';
+import { chromeInsets } from './chrome';
+import { isOtherBucket } from './long-tail';
+import { aggregateMemberRepositories, parseTeam } from './team';
+import { createRepositoryFilter } from './filter';
+import { DirectoryImageLoader, GitHubAvatarLoader, loadAvatars, showsAvatar } from './avatars';
 
 export { GitHubClient } from './github';
 export { TreemapRenderer } from './treemap-renderer';
-export { computeTreemapLayout } from './d3-wrapper';
+export { computeTreemapLayout, createLayoutState } from './d3-wrapper';
+export { resolveTimeWindow } from './time-window';
+export {
+  THEMES,
+  THEME_NAMES,
+  DEFAULT_AUTO_THEMES,
+  parseTheme,
+  resolveTheme,
+} from './themes';
+export { parseFont, loadFontFile } from './font';
+export type { ParsedFont } from './font';
+export { FONT_MODES, subsetFont, textToPath, fontFaceRule } from './font-embed';
+export {
+  createTableMeasurer,
+  createFontMeasurer,
+  defaultTextMeasurer,
+  graphemes,
+} from './text-metrics';
+export {
+  COLOR_INTERPOLATIONS,
+  parseColor,
+  formatColor,
+  createColorScale,
+  contrastRatio,
+  ensureContrast,
+  mostReadable,
+} from './color';
+export { GROUP_BY_MODES, groupRepositories } from './grouping';
+export { REPOSITORY_METRICS, COLOR_BY_MODES, METRIC_SCALES, applyScale } from './metrics';
+export { LANGUAGE_COLORS, languageColor, topLanguages } from './languages';
+export { chromeInsets } from './chrome';
+export { collapseLongTail, isOtherBucket } from './long-tail';
+export { LABEL_FIELDS, parseLabelTemplate } from './labels';
+export { compilePattern, createRepositoryFilter, parseRepositoryFilter } from './filter';
+export {
+  parseConfigFile,
+  findConfigFile,
+  loadConfigFile,
+  mergeConfigOptions,
+  resolveConfigOutputs,
+} from './config-file';
+export {
+  MEMBER_BREAKDOWNS,
+  aggregateMemberRepositories,
+  mergeMemberContributions,
+  memberColors,
+  parseTeam,
+} from './team';
+export {
+  GitHubAvatarLoader,
+  DirectoryImageLoader,
+  imageDataUri,
+  loadAvatars,
+  showsAvatar,
+} from './avatars';
+export type { LabelLine } from './labels';
+export { OUTPUT_FORMATS, formatFromPath, renderTo } from './output';
+export { svgToHtml } from './html';
+export { createTreemapData, parseTreemapData } from './data';
+export { FileContributionCache, defaultCacheDir } from './cache';
 
 export type {
   Repository,
@@ -13,61 +84,435 @@ export type {
   TreemapOptions,
   TreemapConfig,
   GitHubConfig,
+  ContributionKind,
+  ContributionBreakdown,
+  ContributionWeights,
+  ContributionTotals,
+  TimeWindow,
+  TimeWindowOptions,
+  RepositoryMetric,
+  ColorBy,
+  LabelField,
+  MetricScale,
+  NamedMetricScale,
+  LayoutOptions,
+  LayoutState,
+  TreemapTiling,
+  TreemapNode,
+  TreemapGroupNode,
+  TreemapLayout,
+  TreemapDatum,
+  RepositoryGroup,
+  GroupBy,
+  ThemeName,
+  ThemePalette,
+  ColorInterpolation,
+  TextMeasurer,
+  FontMode,
+  OutputFormat,
+  RenderFormat,
+  RenderToOptions,
+  TreemapData,
+  TreemapRect,
+  RepositoryRef,
+  CachedContribution,
+  ContributionCacheEntry,
+  ContributionCacheStore,
+  RateLimitUsage,
+  ImageLoader,
+  LoadedImage,
+  MemberContribution,
+  MemberBreakdown,
+  RepositoryFilter,
+  ConfigFileOptions,
+  TreemapConfigFile,
 } from './types';
 
-export { DEFAULT_CONFIG } from './constants';
+export {
+  DEFAULT_CONFIG,
+  DEFAULT_LAYOUT_OPTIONS,
+  TREEMAP_TILINGS,
+  CONTRIBUTION_KINDS,
+  DEFAULT_CONTRIBUTION_KINDS,
+  DEFAULT_CONTRIBUTION_WEIGHTS,
+  CONTRIBUTION_LABELS,
+  CONFIG_FILE,
+} from './constants';
+
+type GenerateOptions = import('./types').TimeWindowOptions & {
+  username?: string;
+  // Team treemap of several users' combined contributions instead of one user's:
+  // explicit logins, an organization's members, or a team given as org/team-slug
+  members?: string[];
+  org?: string;
+  team?: string;
+  width?: number;
+  height?: number;
+  excludeRepos?: string[];
+  excludeOwners?: string[];
+  config?: Partial<import('./types').TreemapConfig>;
+  timeoutMs?: number;
+  githubBaseUrl?: string;
+  contributionKinds?: import('./types').ContributionKind[];
+  contributionWeights?: import('./types').ContributionWeights;
+  onWarning?: (message: string) => void;
+  // Which repositories get a tile; own repositories and forks are left out by default
+  filter?: import('./types').RepositoryFilter;
+  // Cache directory or store; later runs only fetch contributions newer than the last.
+  // Off unless given.
+  cache?: string | false | import('./types').ContributionCacheStore;
+  // Refetch everything instead of reading the cache (the result is still cached)
+  refresh?: boolean;
+  // Sleep until the rate limit resets instead of failing when it is spent
+  waitForReset?: boolean;
+  // Per-query cost, retries and the points the run used in total
+  onDebug?: (message: string) => void;
+  sizeBy?: import('./types').RepositoryMetric;
+  sizeScale?: import('./types').MetricScale;
+  // A metric on the heat gradient, or 'language' for linguist colors
+  colorBy?: import('./types').ColorBy;
+  colorScale?: import('./types').MetricScale;
+  tiling?: import('./types').TreemapTiling;
+  tilingRatio?: number;
+  previousLayout?: import('./types').LayoutState;
+  // Tiles from layoutTreemap for the same data and options, so loading avatars and
+  // rendering don't each lay them out again
+  layout?: import('./types').TreemapLayout;
+  groupBy?: import('./types').GroupBy;
+  // Group name -> owners or owner/name entries, used with groupBy: 'custom'
+  groups?: Record<string, string[]>;
+  // Collapse the long tail into one "+N more repos" tile: past the maxRepos largest,
+  // below minContribs contributions, or smaller than minArea square pixels
+  maxRepos?: number;
+  minContribs?: number;
+  minArea?: number;
+  // Built-in theme name, a palette, or 'auto' to switch between lightTheme and darkTheme
+  theme?: import('./types').ThemeName | import('./types').ThemePalette | 'auto';
+  lightTheme?: import('./types').ThemeName | import('./types').ThemePalette;
+  darkTheme?: import('./types').ThemeName | import('./types').ThemePalette;
+  // Local TTF/OTF/WOFF file whose metrics are used to fit labels
+  fontFile?: string;
+  // 'embed' inlines a subset of fontFile, 'paths' draws labels as outlines
+  fontMode?: import('./types').FontMode;
+  // Receives the tile order of this run, to be saved and passed back as previousLayout
+  onLayout?: (state: import('./types').LayoutState) => void;
+  // Owner avatars on tiles of at least config.avatarMinSize px: true fetches them from
+  // GitHub, a directory reads <owner>.png (or .jpg, .gif, .webp, .svg) from it.
+  // Loaded by generateContributionTreemap and loadTreemapAvatars; renderTreemapData
+  // takes the loaded images as config.avatars.
+  avatars?: boolean | string | import('./types').ImageLoader;
+};
+
+// Options that only affect fetching; everything else applies to rendering saved data too
+type RenderOptions = Omit<
+  GenerateOptions,
+  | 'username'
+  | 'members'
+  | 'org'
+  | 'team'
+  | 'excludeRepos'
+  | 'excludeOwners'
+  | 'filter'
+  | 'timeoutMs'
+  | 'githubBaseUrl'
+  | 'contributionKinds'
+  | 'contributionWeights'
+  | 'cache'
+  | 'refresh'
+  | 'waitForReset'
+  | 'onDebug'
+  | keyof import('./types').TimeWindowOptions
+>;
 
 /**
  * Main function to generate a GitHub contribution treemap SVG
  */
 export async function generateContributionTreemap(
   token: string,
-  options: {
-    username?: string;
-    width?: number;
-    height?: number;
-    excludeRepos?: string[];
-    excludeOwners?: string[];
-    config?: Partial<import('./types').TreemapConfig>;
-    timeoutMs?: number;
-    githubBaseUrl?: string;
-  } = {}
+  options: GenerateOptions = {}
 ): Promise<string> {
+  // Resolved up front so a bad font or theme fails before any API call
+  const rendererConfig = createRendererConfig(options);
+  const { data, layout } = await fetchData(token, options);
+  const renderOptions = { ...options, layout };
+  if (options.avatars) rendererConfig.avatars = await loadTreemapAvatars(data, renderOptions);
+  return renderData(data, renderOptions, rendererConfig);
+}
+
+/**
+ * Fetch and normalize contributed repositories, with the layout they get at the
+ * given size, without rendering them
+ */
+export async function fetchTreemapData(
+  token: string,
+  options: GenerateOptions = {}
+): Promise<import('./types').TreemapData> {
+  return (await fetchData(token, options)).data;
+}
+
+// The fetched data along with the layout it was saved with, for rendering it right away
+async function fetchData(
+  token: string,
+  options: GenerateOptions
+): Promise<{ data: import('./types').TreemapData; layout: import('./types').TreemapLayout }> {
   const {
     username,
-    width = DEFAULT_CONFIG.width,
-    height = DEFAULT_CONFIG.height,
+    org,
+    team,
     excludeRepos = [],
     excludeOwners = [],
-    config = {},
+    filter = {},
     timeoutMs = DEFAULT_GITHUB_CONFIG.timeoutMs,
     githubBaseUrl = DEFAULT_GITHUB_CONFIG.baseUrl,
+    contributionKinds = DEFAULT_CONTRIBUTION_KINDS,
+    contributionWeights = {},
+    since,
+    until,
+    lastDays,
+    year,
+    onWarning,
+    cache,
+    refresh,
+    waitForReset,
+    onDebug,
   } = options;
 
+  const window = resolveTimeWindow({ since, until, lastDays, year });
+
   const github = new GitHubClient({
     token,
     timeoutMs,
     baseUrl: githubBaseUrl,
+    onWarning,
+    cache: typeof cache === 'string' ? new FileContributionCache(cache) : cache || undefined,
+    refresh,
+    waitForReset,
+    onDebug,
   });
-  const resolvedUsername = await github.resolveUsername(username);
+  const members = await resolveTeamMembers(github, options);
+  const name = members
+    ? (team ?? org ?? members.join(', '))
+    : await github.resolveUsername(username);
+  const fetchedAt = new Date();
+
+  const fetchOptions = { kinds: contributionKinds, window, includeForks: filter.includeForks };
+  const rawRepos = members
+    ? aggregateMemberRepositories(
+        await github.fetchMembersContributedRepositories(members, fetchOptions)
+      )
+    : await github.fetchContributedRepositories(name, fetchOptions);
 
-  const rawRepos = await github.fetchAllTimeContributedRepositories(resolvedUsername);
+  const usage = github.getRateLimitUsage();
+  onDebug?.(
+    `GitHub API: ${usage.queries} queries used ${usage.used} rate-limit points` +
+      (usage.remaining !== undefined
+        ? `, ${usage.remaining}/${usage.limit} left until ${usage.resetAt}`
+        : '')
+  );
 
+  // --exclude-repos names and --exclude-owners are exclude patterns too
+  const keep = createRepositoryFilter({
+    ...filter,
+    exclude: [
+      ...(filter.exclude ?? []),
+      ...excludeRepos,
+      ...excludeOwners.map((owner) => `${owner}/*`),
+    ],
+  });
   const normalizedRepos = normalizeRepositories(rawRepos, {
-    username: resolvedUsername,
-    excludeReposSet: new Set(excludeRepos.map((s) => s.toLowerCase())),
-    excludeOwnersSet: new Set(excludeOwners.map((s) => s.toLowerCase())),
+    ownLogins: new Set((members ?? [name]).map((login) => login.toLowerCase())),
+    contributionWeights,
+  }).filter(keep);
+
+  const layout = layoutRepositories(normalizedRepos, options);
+  return { data: createTreemapData(name, normalizedRepos, layout, fetchedAt, members), layout };
+}
+
+/**
+ * Logins of a team treemap's members, undefined for a single user's treemap
+ */
+async function resolveTeamMembers(
+  github: GitHubClient,
+  options: Pick<GenerateOptions, 'members' | 'org' | 'team'>
+): Promise<string[] | undefined> {
+  const { members, org, team } = options;
+  let logins: string[];
+  if (team) {
+    const parsed = parseTeam(team);
+    logins = await github.resolveMembers(parsed.org, parsed.team);
+  } else if (org) {
+    logins = await github.resolveMembers(org);
+  } else if (members && members.length > 0) {
+    logins = members;
+  } else {
+    return undefined;
+  }
+
+  if (logins.length === 0) throw new Error(`No members found in ${team ?? org}`);
+
+  // Logins are case-insensitive; a member listed twice would be fetched and counted twice
+  const seen = new Set<string>();
+  return logins.filter((login) => {
+    const key = login.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Render previously fetched (or saved and parsed) treemap data, no token needed
+ */
+export function renderTreemapData(
+  data: import('./types').TreemapData,
+  options: RenderOptions = {}
+): string {
+  return renderData(data, options, createRendererConfig(options));
+}
+
+/**
+ * The data with its layout computed again, e.g. at another size than it was fetched at
+ */
+export function layoutTreemapData(
+  data: import('./types').TreemapData,
+  options: RenderOptions = {}
+): import('./types').TreemapData {
+  return createTreemapData(
+    data.username,
+    data.repositories,
+    layoutRepositories(data.repositories, options),
+    new Date(data.fetchedAt),
+    data.members
+  );
+}
+
+/**
+ * Tiles of the data at the options' size, to pass as options.layout to
+ * loadTreemapAvatars and renderTreemapData when using both
+ */
+export function layoutTreemap(
+  data: import('./types').TreemapData,
+  options: RenderOptions = {}
+): import('./types').TreemapLayout {
+  return layoutRepositories(data.repositories, options);
+}
+
+/**
+ * Avatars of the owners whose tiles are large enough to show one, as data URIs for
+ * config.avatars. Images that fail to load are reported through onWarning and skipped.
+ */
+export async function loadTreemapAvatars(
+  data: import('./types').TreemapData,
+  options: RenderOptions & Pick<GenerateOptions, 'githubBaseUrl'>
+): Promise<Record<string, string>> {
+  const { avatars, githubBaseUrl, onWarning } = options;
+  if (!avatars || data.repositories.length === 0) return {};
+
+  const loader =
+    avatars === true
+      ? new GitHubAvatarLoader({ githubBaseUrl })
+      : typeof avatars === 'string'
+        ? new DirectoryImageLoader(avatars)
+        : avatars;
+  const minSize = options.config?.avatarMinSize ?? DEFAULT_CONFIG.avatarMinSize;
+  const owners = (options.layout ?? layoutRepositories(data.repositories, options))
+    .leaves()
+    .filter((node) => !isOtherBucket(node.data))
+    .filter((node) => showsAvatar(node.x1 - node.x0, node.y1 - node.y0, minSize))
+    .map((node) => node.data.owner);
+
+  return loadAvatars(owners, loader, onWarning);
+}
+
+function renderData(
+  data: import('./types').TreemapData,
+  options: RenderOptions,
+  rendererConfig: Partial<import('./types').TreemapConfig>
+): string {
+  const header = rendererConfig.header?.replace(/\{username\}/g, data.username);
+  const renderer = new TreemapRenderer({
+    title: `GitHub contributions of ${data.username}`,
+    // The footer dates the data, which --input may render long after the fetch
+    generatedAt: new Date(data.fetchedAt),
+    ...rendererConfig,
+    ...(header && { header }),
   });
 
-  if (normalizedRepos.length === 0) {
-    const renderer = new TreemapRenderer({ ...config, width, height });
+  if (data.repositories.length === 0) {
     return renderer.render([]);
   }
 
-  const layout = computeTreemapLayout(normalizedRepos, width, height);
+  const layout = options.layout ?? layoutRepositories(data.repositories, options);
+  const leaves = layout.leaves();
+  options.onLayout?.(createLayoutState(leaves));
+
+  return renderer.render(leaves, layout.groups());
+}
+
+function layoutRepositories(
+  repos: import('./types').NormalizedRepository[],
+  options: RenderOptions
+): import('./types').TreemapLayout {
+  const { width = DEFAULT_CONFIG.width, height = DEFAULT_CONFIG.height } = options;
+  // Tiles fill what the header, legend and footer leave free
+  const { top, bottom } = chromeInsets(options.config ?? {});
+
+  return computeTreemapLayout(repos, width, height - top - bottom, {
+    sizeBy: options.sizeBy,
+    sizeScale: options.sizeScale,
+    tiling: options.tiling,
+    tilingRatio: options.tilingRatio,
+    previousLayout: options.previousLayout,
+    groupBy: options.groupBy,
+    groups: options.groups,
+    offsetTop: top,
+    maxRepos: options.maxRepos,
+    minContribs: options.minContribs,
+    minArea: options.minArea,
+  });
+}
+
+function createRendererConfig(options: RenderOptions): Partial<import('./types').TreemapConfig> {
+  const {
+    width = DEFAULT_CONFIG.width,
+    height = DEFAULT_CONFIG.height,
+    config = {},
+    colorBy,
+    colorScale,
+    theme,
+    lightTheme,
+    darkTheme,
+    fontFile,
+    fontMode = config.fontMode ?? DEFAULT_CONFIG.fontMode,
+  } = options;
+
+  const font = fontFile ? loadFontFile(fontFile) : config.font;
+  if (fontMode !== 'reference' && !font) {
+    throw new Error(`Font mode '${fontMode}' requires a font file`);
+  }
+  if (fontMode === 'paths' && font?.outlines === 'cff') {
+    throw new Error(
+      `Font mode 'paths' needs TrueType outlines; ${fontFile ?? 'the font'} has CFF outlines ` +
+        "(use 'embed' or a TrueType font)"
+    );
+  }
+  if (fontMode === 'embed' && font?.outlines === 'cff') {
+    options.onWarning?.(
+      `${fontFile ?? 'The font'} has CFF outlines, which cannot be subset; the whole font is embedded`
+    );
+  }
 
-  const renderer = new TreemapRenderer({ ...config, width, height });
-  return renderer.render(layout.leaves());
+  // Explicit config colors win over the theme, explicit metric options over config
+  return {
+    ...themeConfig(theme, lightTheme, darkTheme),
+    ...(font && { font, textMeasurer: createFontMeasurer(font) }),
+    ...config,
+    width,
+    height,
+    fontMode,
+    ...(colorBy && { colorBy }),
+    ...(colorScale && { colorScale }),
+  };
 }
 
 /**
@@ -76,36 +521,46 @@ export async function generateContributionTreemap(
 function normalizeRepositories(
   repos: import('./types').Repository[],
   options: {
-    username: string;
-    excludeReposSet: Set<string>;
-    excludeOwnersSet: Set<string>;
+    // Lower-cased logins whose repositories count as their own
+    ownLogins: Set<string>;
+    contributionWeights: import('./types').ContributionWeights;
   }
 ): import('./types').NormalizedRepository[] {
-  const { username, excludeReposSet, excludeOwnersSet } = options;
-  const filtered: import('./types').NormalizedRepository[] = [];
+  const { ownLogins, contributionWeights } = options;
+  const normalized: import('./types').NormalizedRepository[] = [];
 
   for (const repo of repos) {
     const owner = repo.owner?.login || (repo.nameWithOwner?.split('/')?.[0] ?? '');
     const name = repo.name || (repo.nameWithOwner?.split('/')?.[1] ?? '');
     const nameWithOwner = `${owner}/${name}`;
-    const keyName = name.toLowerCase();
-    const keyFull = nameWithOwner.toLowerCase();
-
-    if (excludeReposSet.has(keyName) || excludeReposSet.has(keyFull)) continue;
-    if (excludeOwnersSet.has(owner.toLowerCase())) continue;
-
-    const isOwnedByUser = owner.toLowerCase() === String(username).toLowerCase();
-    if (isOwnedByUser) continue;
 
-    filtered.push({
+    normalized.push({
       id: nameWithOwner,
       label: name,
       owner,
+      url: repo.url || `https://github.com/${nameWithOwner}`,
       stars: Math.max(0, Number(repo.stargazerCount || 0)),
       contribs: Math.max(0, Number(repo.contribs || 0)),
-      isOwnedByUser,
+      contributions: { ...repo.contributions },
+      score: weightedContributionScore(repo.contributions || {}, contributionWeights),
+      isOwnedByUser: ownLogins.has(owner.toLowerCase()),
+      isFork: Boolean(repo.isFork),
+      ...(repo.description && { description: repo.description }),
+      ...(repo.primaryLanguage && { language: repo.primaryLanguage.name }),
+      ...(repo.primaryLanguage?.color && { languageColor: repo.primaryLanguage.color }),
+      topics: [...(repo.topics ?? [])],
+      isArchived: Boolean(repo.isArchived),
+      isPrivate: Boolean(repo.isPrivate),
+      ...(repo.members && {
+        members: repo.members.map((member) => ({
+          login: member.login,
+          contribs: member.contribs,
+          contributions: { ...member.contributions },
+          score: weightedContributionScore(member.contributions, contributionWeights),
+        })),
+      }),
     });
   }
 
-  return filtered;
+  return normalized;
 }
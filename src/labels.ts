@@ -0,0 +1,122 @@
+import type { ContributionKind, LabelField, NormalizedRepository } from './types';
+import { CONTRIBUTION_KINDS, MEMBERS } from './constants';
+
+export const LABEL_FIELDS: readonly LabelField[] = [
+  'label',
+  'owner',
+  'nameWithOwner',
+  'stars',
+  'contribs',
+  'score',
+  'language',
+  'members',
+  ...CONTRIBUTION_KINDS,
+];
+
+export interface LabelLine {
+  // Line text with {field} placeholders
+  template: string;
+  // The first line and lines wrapped in ** are bold in the primary text color;
+  // the others are regular in the secondary color
+  bold: boolean;
+  fields: LabelField[];
+}
+
+export interface LabelContext {
+  formatNumber: (value: number) => string;
+  // {stars} is empty below this
+  minStars: number;
+  // Lower-cased owners whose {owner} is empty
+  hiddenOwners: Set<string>;
+}
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+function isLabelField(name: string): name is LabelField {
+  return (LABEL_FIELDS as readonly string[]).includes(name);
+}
+
+/**
+ * Split a tile label template into lines, e.g. "{label}\n{contribs} PRs · ★{stars}".
+ * Throws on unknown fields.
+ */
+export function parseLabelTemplate(template: string): LabelLine[] {
+  return template.split('\n').map((raw, index) => {
+    const marked = /^\*\*(.*)\*\*$/.exec(raw.trim());
+    const text = marked ? marked[1] : raw;
+
+    const fields = [...text.matchAll(PLACEHOLDER)].map(([, name]) => {
+      if (!isLabelField(name)) {
+        throw new Error(
+          `Unknown label field {${name}} (expected one of ${LABEL_FIELDS.join(', ')})`
+        );
+      }
+      return name;
+    });
+
+    return { template: text, bold: index === 0 || Boolean(marked), fields };
+  });
+}
+
+function fieldValue(repo: NormalizedRepository, field: LabelField, context: LabelContext): string {
+  const { formatNumber } = context;
+  switch (field) {
+    case 'label':
+      return repo.label;
+    case 'owner':
+      return context.hiddenOwners.has(repo.owner.toLowerCase()) ? '' : repo.owner;
+    case 'nameWithOwner':
+      return repo.otherCount === undefined ? repo.id : repo.label;
+    case 'stars':
+      return repo.stars >= context.minStars ? formatNumber(repo.stars) : '';
+    case 'contribs':
+      return formatNumber(repo.contribs);
+    case 'score':
+      return formatNumber(repo.score);
+    case 'language':
+      return repo.language ?? '';
+    case 'members': {
+      // Top contributors of a team treemap, e.g. "alice, bob, carol +2"
+      const members = repo.members ?? [];
+      const shown = members.slice(0, MEMBERS.LABEL_COUNT).map((member) => member.login);
+      const more = members.length - shown.length;
+      return shown.join(', ') + (more > 0 ? ` +${more}` : '');
+    }
+    default: {
+      const count = repo.contributions[field as ContributionKind];
+      return count ? formatNumber(count) : '';
+    }
+  }
+}
+
+// " · ", " | ", " - " and the like split a line into segments
+const SEPARATOR = /(\s+[^\p{L}\p{N}\s{}]+\s+)/u;
+
+/**
+ * A line's text for one repository. A segment whose placeholders all come out empty
+ * (no owner, too few stars, no such contributions) is dropped with its separator and
+ * any literal text in it, so "{contribs} PRs · ★{stars}" can become "12 PRs". Lines
+ * with nothing left are dropped as ''.
+ */
+export function fillLabelLine(
+  line: LabelLine,
+  repo: NormalizedRepository,
+  context: LabelContext
+): string {
+  // Captured separators sit at the odd indices
+  const parts = line.template.split(SEPARATOR);
+  let text = '';
+  for (let i = 0; i < parts.length; i += 2) {
+    let filled = false;
+    let placeholders = false;
+    const segment = parts[i].replace(PLACEHOLDER, (_, name: LabelField) => {
+      const value = fieldValue(repo, name, context);
+      placeholders = true;
+      if (value) filled = true;
+      return value;
+    });
+    if (placeholders && !filled) continue;
+    text += (text && i > 0 ? parts[i - 1] : '') + segment;
+  }
+  return text.trim();
+}
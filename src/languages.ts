@@ -0,0 +1,61 @@
+import type { NormalizedRepository } from './types';
+
+// Colors of common languages from GitHub linguist's languages.yml, for data saved
+// without the color GitHub reports
+// prettier-ignore
+export const LANGUAGE_COLORS: Record<string, string> = {
+  'Ada': '#02f88c', 'Agda': '#315665', 'Apex': '#1797c0', 'Assembly': '#6E4C13',
+  'Astro': '#ff5a03', 'AutoHotkey': '#6594b9', 'Batchfile': '#C1F12E', 'C': '#555555',
+  'C#': '#178600', 'C++': '#f34b7d', 'Clojure': '#db5855', 'CMake': '#DA3434',
+  'CoffeeScript': '#244776', 'Common Lisp': '#3fb68b', 'Crystal': '#000100',
+  'CSS': '#663399', 'Cuda': '#3A4E3A', 'D': '#ba595e', 'Dart': '#00B4AB',
+  'Dockerfile': '#384d54', 'Elixir': '#6e4a7e', 'Elm': '#60B5CC', 'Emacs Lisp': '#c065db',
+  'Erlang': '#B83998', 'F#': '#b845fc', 'Fortran': '#4d41b1', 'GDScript': '#355570',
+  'Gleam': '#ffaff3', 'GLSL': '#5686a5', 'Go': '#00ADD8', 'Groovy': '#4298b8',
+  'Hack': '#878787', 'Handlebars': '#f7931e', 'Haskell': '#5e5086', 'Haxe': '#df7900',
+  'HCL': '#844FBA', 'HLSL': '#aace60', 'HTML': '#e34c26', 'Java': '#b07219',
+  'JavaScript': '#f1e05a', 'Jsonnet': '#0064bd', 'Julia': '#a270ba',
+  'Jupyter Notebook': '#DA5B0B', 'Kotlin': '#A97BFF', 'Less': '#1d365d', 'Lua': '#000080',
+  'Makefile': '#427819', 'Markdown': '#083fa1', 'MATLAB': '#e16737', 'MDX': '#fcb32c',
+  'Meson': '#007800', 'Nim': '#ffc200', 'Nix': '#7e7eff', 'Objective-C': '#438eff',
+  'Objective-C++': '#6866fb', 'OCaml': '#ef7a08', 'Pascal': '#E3F171', 'Perl': '#0298c3',
+  'PHP': '#4F5D95', 'PLpgSQL': '#336790', 'PowerShell': '#012456', 'Processing': '#0096D8',
+  'Prolog': '#74283c', 'Pug': '#a86454', 'PureScript': '#1D222D', 'Python': '#3572A5',
+  'R': '#198CE7', 'Racket': '#3c5caa', 'Raku': '#0000fb', 'ReScript': '#ed5051',
+  'Roff': '#ecdebe', 'Ruby': '#701516', 'Rust': '#dea584', 'Sass': '#a53b70',
+  'Scala': '#c22d40', 'Scheme': '#1e4aec', 'SCSS': '#c6538c', 'Shell': '#89e051',
+  'Smalltalk': '#596706', 'Solidity': '#AA6746', 'Starlark': '#76d275', 'Stylus': '#ff6347',
+  'Svelte': '#ff3e00', 'Swift': '#F05138', 'SystemVerilog': '#DAE1C2', 'Tcl': '#e4cc98',
+  'TeX': '#3D6117', 'TSQL': '#e38c00', 'TypeScript': '#3178c6', 'V': '#4f87c4',
+  'Vala': '#a56de2', 'Verilog': '#b2b7f8', 'VHDL': '#adb2cb', 'Vim Script': '#199f4b',
+  'Visual Basic .NET': '#945db7', 'Vue': '#41b883', 'WebAssembly': '#04133b',
+  'Zig': '#ec915c',
+};
+
+/**
+ * Tile color for a repository's primary language: the color GitHub reported, then
+ * the bundled table, then the fallback (also used for repositories without a language)
+ */
+export function languageColor(repo: NormalizedRepository, fallback: string): string {
+  if (!repo.language) return fallback;
+  return repo.languageColor ?? LANGUAGE_COLORS[repo.language] ?? fallback;
+}
+
+/**
+ * Languages by number of repositories, most common first; ties go to the
+ * language with more contributions
+ */
+export function topLanguages(repos: NormalizedRepository[]): string[] {
+  const stats = new Map<string, { repos: number; contribs: number }>();
+  for (const repo of repos) {
+    if (!repo.language) continue;
+    const entry = stats.get(repo.language) ?? { repos: 0, contribs: 0 };
+    entry.repos++;
+    entry.contribs += repo.contribs;
+    stats.set(repo.language, entry);
+  }
+
+  return [...stats.entries()]
+    .sort(([, a], [, b]) => b.repos - a.repos || b.contribs - a.contribs)
+    .map(([language]) => language);
+}
@@ -0,0 +1,88 @@
+import type { MetricScale, NormalizedRepository, RepositoryMetric } from './types';
+import { CONTRIBUTION_KINDS, OTHER_BUCKET } from './constants';
+import { scaledMetric } from './metrics';
+import { mergeMemberContributions } from './team';
+
+export interface LongTailOptions {
+  sizeBy: RepositoryMetric;
+  sizeScale: MetricScale;
+  // Keep at most this many repositories
+  maxRepos: number;
+  // Keep repositories with at least this many contributions
+  minContribs: number;
+  // Keep repositories whose tile would get at least this many square pixels
+  minArea: number;
+}
+
+export function isOtherBucket(repo: NormalizedRepository): boolean {
+  return repo.otherCount !== undefined;
+}
+
+/**
+ * One tile standing for several repositories, with their stats summed
+ */
+function otherBucket(repos: NormalizedRepository[]): NormalizedRepository {
+  const contributions: NormalizedRepository['contributions'] = {};
+  for (const repo of repos) {
+    for (const kind of CONTRIBUTION_KINDS) {
+      const count = repo.contributions[kind];
+      if (count) contributions[kind] = (contributions[kind] ?? 0) + count;
+    }
+  }
+
+  return {
+    id: OTHER_BUCKET.ID,
+    label: `+${repos.length} more repo${repos.length === 1 ? '' : 's'}`,
+    owner: '',
+    url: '',
+    stars: repos.reduce((sum, repo) => sum + repo.stars, 0),
+    contribs: repos.reduce((sum, repo) => sum + repo.contribs, 0),
+    contributions,
+    score: repos.reduce((sum, repo) => sum + repo.score, 0),
+    isOwnedByUser: false,
+    isFork: false,
+    topics: [],
+    isArchived: false,
+    isPrivate: false,
+    otherCount: repos.length,
+    ...(repos.some((repo) => repo.members) && {
+      members: mergeMemberContributions(repos.flatMap((repo) => repo.members ?? [])),
+    }),
+  };
+}
+
+/**
+ * Collapse repositories that miss any threshold into a single "Other" bucket.
+ * Repositories rank by tile size; area is estimated from each repository's share
+ * of the total size over the whole canvas. A single repository below the contribution
+ * or area threshold is left as it is, but one past maxRepos still becomes the bucket.
+ */
+export function collapseLongTail(
+  items: NormalizedRepository[],
+  canvasArea: number,
+  options: LongTailOptions
+): NormalizedRepository[] {
+  const { sizeBy, sizeScale, maxRepos, minContribs, minArea } = options;
+  const size = (repo: NormalizedRepository) => Math.max(1, scaledMetric(repo, sizeBy, sizeScale));
+  const total = items.reduce((sum, repo) => sum + size(repo), 0);
+
+  const ranked = [...items].sort((a, b) => size(b) - size(a) || b.contribs - a.contribs);
+  const kept: NormalizedRepository[] = [];
+  const collapsed: NormalizedRepository[] = [];
+
+  for (const repo of ranked) {
+    const fits =
+      kept.length < maxRepos &&
+      repo.contribs >= minContribs &&
+      (size(repo) / total) * canvasArea >= minArea;
+    (fits ? kept : collapsed).push(repo);
+  }
+
+  // A bucket for one repository is no smaller than its own tile, unless the limit is why
+  const limited = ranked.length > maxRepos;
+  if (collapsed.length === 0 || (collapsed.length === 1 && !limited)) return items;
+
+  // Original order for the kept repositories, so stable layouts still apply
+  const keptIds = new Set(kept.map((repo) => repo.id));
+  return [...items.filter((repo) => keptIds.has(repo.id)), otherBucket(collapsed)];
+}
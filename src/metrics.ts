@@ -0,0 +1,42 @@
+import type {
+  ColorBy,
+  MetricScale,
+  NamedMetricScale,
+  NormalizedRepository,
+  RepositoryMetric,
+} from './types';
+
+export const REPOSITORY_METRICS: readonly RepositoryMetric[] = ['stars', 'contribs', 'score'];
+
+export const COLOR_BY_MODES: readonly ColorBy[] = [...REPOSITORY_METRICS, 'language'];
+
+export const METRIC_SCALES: readonly NamedMetricScale[] = ['linear', 'sqrt', 'log'];
+
+export function metricValue(repo: NormalizedRepository, metric: RepositoryMetric): number {
+  return Math.max(0, Number(repo[metric] || 0));
+}
+
+export function applyScale(value: number, scale: MetricScale): number {
+  if (typeof scale === 'function') return scale(value);
+
+  switch (scale) {
+    case 'linear':
+      return value;
+    case 'sqrt':
+      return Math.sqrt(value);
+    case 'log':
+      return Math.log2(value + 1);
+  }
+}
+
+/**
+ * Metric value with the scale applied, e.g. log2(stars + 1)
+ */
+export function scaledMetric(
+  repo: NormalizedRepository,
+  metric: RepositoryMetric,
+  scale: MetricScale
+): number {
+  const v = applyScale(metricValue(repo, metric), scale);
+  return Number.isFinite(v) ? v : 0;
+}
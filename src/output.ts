@@ -0,0 +1,78 @@
+import { extname } from 'node:path';
+import { Resvg } from '@resvg/resvg-js';
+import { PDFDocument } from 'pdf-lib';
+import type { OutputFormat, RenderFormat, RenderToOptions } from './types';
+import { OUTPUT } from './constants';
+import { svgToHtml } from './html';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = ['svg', 'html', 'png', 'webp', 'pdf', 'json'];
+
+/**
+ * Output format implied by a file extension, undefined when it is not one we write
+ */
+export function formatFromPath(path: string): OutputFormat | undefined {
+  const ext = extname(path).slice(1).toLowerCase();
+  return OUTPUT_FORMATS.find((format) => format === ext);
+}
+
+function rasterize(
+  svg: string,
+  options: RenderToOptions
+): { png: Uint8Array; width: number; height: number } {
+  const scale = options.scale ?? OUTPUT.DEFAULT_SCALE;
+  if (!(scale > 0)) throw new Error(`Invalid scale: ${scale}`);
+
+  const resvg = new Resvg(svg, {
+    fitTo: { mode: 'zoom', value: scale },
+    font: { loadSystemFonts: true, fontFiles: options.fontFiles ?? [] },
+  });
+  const image = resvg.render();
+  return { png: image.asPng(), width: resvg.width, height: resvg.height };
+}
+
+async function toWebp(png: Uint8Array): Promise<Uint8Array> {
+  let sharp: typeof import('sharp');
+  try {
+    sharp = (await import('sharp')).default;
+  } catch {
+    throw new Error("WebP output needs the optional 'sharp' package: npm install sharp");
+  }
+  return sharp(png).webp({ lossless: true }).toBuffer();
+}
+
+/**
+ * Single-page PDF with the raster at the SVG's physical size; scale sets its resolution
+ */
+async function toPdf(png: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  const image = await pdf.embedPng(png);
+  const pageWidth = width * OUTPUT.PT_PER_PX;
+  const pageHeight = height * OUTPUT.PT_PER_PX;
+
+  pdf
+    .addPage([pageWidth, pageHeight])
+    .drawImage(image, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+  return pdf.save();
+}
+
+/**
+ * Convert a rendered treemap SVG to the given format, entirely in-process
+ */
+export async function renderTo(
+  svg: string,
+  format: RenderFormat,
+  options: RenderToOptions = {}
+): Promise<Uint8Array> {
+  if (format === 'svg') return new TextEncoder().encode(svg);
+  if (format === 'html') return new TextEncoder().encode(svgToHtml(svg));
+
+  const { png, width, height } = rasterize(svg, options);
+  switch (format) {
+    case 'png':
+      return png;
+    case 'webp':
+      return toWebp(png);
+    case 'pdf':
+      return toPdf(png, width, height);
+  }
+}
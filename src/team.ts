@@ -0,0 +1,90 @@
+import type {
+  ContributionBreakdown,
+  ContributionKind,
+  MemberBreakdown,
+  MemberContribution,
+  NormalizedRepository,
+  Repository,
+} from './types';
+import { MEMBERS } from './constants';
+
+export const MEMBER_BREAKDOWNS: readonly MemberBreakdown[] = ['none', 'tiles', 'bands'];
+
+function addBreakdown(target: ContributionBreakdown, source: ContributionBreakdown): void {
+  for (const [kind, count] of Object.entries(source) as Array<[ContributionKind, number]>) {
+    target[kind] = (target[kind] ?? 0) + count;
+  }
+}
+
+/**
+ * "acme/platform" -> { org: 'acme', team: 'platform' }
+ */
+export function parseTeam(value: string): { org: string; team: string } {
+  const [org, team, ...rest] = value.split('/');
+  if (!org || !team || rest.length > 0) {
+    throw new Error(`Invalid team: ${value} (expected org/team-slug)`);
+  }
+  return { org, team };
+}
+
+/**
+ * Merge each member's contributed repositories into one list for a team treemap.
+ * Counts are summed, and every repository keeps each member's share.
+ */
+export function aggregateMemberRepositories(byMember: Map<string, Repository[]>): Repository[] {
+  const merged = new Map<string, Repository & { members: NonNullable<Repository['members']> }>();
+
+  for (const [login, repos] of byMember) {
+    for (const repo of repos) {
+      let entry = merged.get(repo.id);
+      if (!entry) {
+        entry = { ...repo, contribs: 0, contributions: {}, members: [] };
+        merged.set(repo.id, entry);
+      }
+
+      entry.contribs += repo.contribs;
+      addBreakdown(entry.contributions, repo.contributions);
+      entry.members.push({
+        login,
+        contribs: repo.contribs,
+        contributions: { ...repo.contributions },
+      });
+    }
+  }
+
+  const repositories = Array.from(merged.values());
+  for (const repo of repositories) repo.members.sort((a, b) => b.contribs - a.contribs);
+  return repositories;
+}
+
+/**
+ * Shares of the same member summed, most contributions first
+ */
+export function mergeMemberContributions(members: MemberContribution[]): MemberContribution[] {
+  const byLogin = new Map<string, MemberContribution>();
+  for (const member of members) {
+    const key = member.login.toLowerCase();
+    const entry = byLogin.get(key) ?? {
+      login: member.login,
+      contribs: 0,
+      contributions: {},
+      score: 0,
+    };
+    entry.contribs += member.contribs;
+    entry.score += member.score;
+    addBreakdown(entry.contributions, member.contributions);
+    byLogin.set(key, entry);
+  }
+  return [...byLogin.values()].sort((a, b) => b.contribs - a.contribs);
+}
+
+/**
+ * A color per member, in order of total contributions across the repositories.
+ * Colors repeat past the palette's length.
+ */
+export function memberColors(repos: NormalizedRepository[]): Map<string, string> {
+  const ranked = mergeMemberContributions(repos.flatMap((repo) => repo.members ?? []));
+  return new Map(
+    ranked.map((member, i) => [member.login, MEMBERS.COLORS[i % MEMBERS.COLORS.length]])
+  );
+}
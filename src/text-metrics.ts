@@ -0,0 +1,107 @@
+import type { TextMeasurer } from './types';
+import type { ParsedFont } from './font';
+
+// Advance widths (1/1000 em) of printable ASCII, 0x20..0x7E, for a typical sans-serif
+// in the default font stack (Segoe UI / Helvetica / Arial are all close to these).
+// prettier-ignore
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, // space../
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, // 0..?
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, // @..O
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, // P.._
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, // `..o
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584, // p..~
+];
+
+const EM = {
+  // Other Latin, Greek, Cyrillic, ... when not in the table
+  DEFAULT: 0.6,
+  FULL_WIDTH: 1,
+  EMOJI: 1.2,
+  // Bold widening for the built-in table, and for a font file's regular glyphs
+  // drawn bold
+  BOLD_FACTOR: 1.07,
+} as const;
+
+const segmenter =
+  typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : undefined;
+
+/**
+ * Split into user-perceived characters, so "👩‍💻" or "é" (e + U+0301) count once
+ */
+export function graphemes(text: string): string[] {
+  if (segmenter) return Array.from(segmenter.segment(text), (s) => s.segment);
+  return Array.from(text);
+}
+
+const EMOJI_RE = /\p{Extended_Pictographic}|\p{Regional_Indicator}/u;
+// Combining marks and zero-width characters take no space
+const MARK_RE = /^[\p{M}\u200B-\u200F\u2060\uFEFF]+$/u;
+
+/**
+ * East Asian Wide and Fullwidth ranges (CJK, kana, Hangul, full-width forms)
+ */
+export function isFullWidth(cp: number): boolean {
+  return (
+    (cp >= 0x1100 && cp <= 0x115f) ||
+    (cp >= 0x2e80 && cp <= 0x303e) ||
+    (cp >= 0x3041 && cp <= 0x33ff) ||
+    (cp >= 0x3400 && cp <= 0x4dbf) ||
+    (cp >= 0x4e00 && cp <= 0x9fff) ||
+    (cp >= 0xa000 && cp <= 0xa4cf) ||
+    (cp >= 0xac00 && cp <= 0xd7a3) ||
+    (cp >= 0xf900 && cp <= 0xfaff) ||
+    (cp >= 0xfe30 && cp <= 0xfe4f) ||
+    (cp >= 0xff00 && cp <= 0xff60) ||
+    (cp >= 0xffe0 && cp <= 0xffe6) ||
+    (cp >= 0x20000 && cp <= 0x3fffd)
+  );
+}
+
+/**
+ * Width of one grapheme cluster in em from the built-in tables
+ */
+function graphemeEm(cluster: string): number {
+  if (MARK_RE.test(cluster)) return 0;
+  if (EMOJI_RE.test(cluster)) return EM.EMOJI;
+
+  const cp = cluster.codePointAt(0) ?? 0;
+  if (cp >= 0x20 && cp <= 0x7e) return ASCII_WIDTHS[cp - 0x20] / 1000;
+  if (isFullWidth(cp)) return EM.FULL_WIDTH;
+  return EM.DEFAULT;
+}
+
+/**
+ * Measurer backed by built-in width tables for the default font stack
+ */
+export function createTableMeasurer(): TextMeasurer {
+  return {
+    measure(text, fontSizePx, bold = false) {
+      let em = 0;
+      for (const cluster of graphemes(text)) em += graphemeEm(cluster);
+      return em * fontSizePx * (bold ? EM.BOLD_FACTOR : 1);
+    },
+  };
+}
+
+/**
+ * Measurer backed by a parsed font file. A cluster takes the advance of its base
+ * character; characters the font lacks fall back to the built-in tables. Bold text
+ * is widened like the tables', since the file holds a single weight.
+ */
+export function createFontMeasurer(font: ParsedFont): TextMeasurer {
+  return {
+    measure(text, fontSizePx, bold = false) {
+      let em = 0;
+      for (const cluster of graphemes(text)) {
+        const glyph = font.glyphId(cluster.codePointAt(0) ?? 0);
+        em += glyph ? font.advanceWidth(glyph) / font.unitsPerEm : graphemeEm(cluster);
+      }
+      return em * fontSizePx * (bold ? EM.BOLD_FACTOR : 1);
+    },
+  };
+}
+
+export const defaultTextMeasurer: TextMeasurer = createTableMeasurer();
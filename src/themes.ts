@@ -0,0 +1,145 @@
+import type { ThemeName, ThemePalette, TreemapConfig } from './types';
+import { parseColor } from './color';
+
+export const THEMES: Record<ThemeName, ThemePalette> = {
+  default: {
+    canvasBg: '#21232A',
+    accent: '#58BCDA',
+    heatMin: '#31343C',
+    heatMax: '#58BCDA',
+    textPrimary: '#FFFFFF',
+    textSecondary: 'rgba(255,255,255,0.75)',
+  },
+  'github-dark': {
+    canvasBg: '#0D1117',
+    accent: '#39D353',
+    heatMin: '#0E4429',
+    heatMax: '#26A641',
+    textPrimary: '#E6EDF3',
+    textSecondary: 'rgba(230,237,243,0.75)',
+  },
+  'github-light': {
+    canvasBg: '#FFFFFF',
+    accent: '#1A7F37',
+    heatMin: '#DAFBE1',
+    heatMax: '#4AC26B',
+    textPrimary: '#1F2328',
+    textSecondary: 'rgba(31,35,40,0.75)',
+  },
+  dracula: {
+    canvasBg: '#282A36',
+    accent: '#FF79C6',
+    heatMin: '#44475A',
+    heatMax: '#BD93F9',
+    textPrimary: '#F8F8F2',
+    textSecondary: 'rgba(248,248,242,0.75)',
+  },
+  'solarized-dark': {
+    canvasBg: '#002B36',
+    accent: '#B58900',
+    heatMin: '#073642',
+    heatMax: '#2AA198',
+    textPrimary: '#FDF6E3',
+    textSecondary: '#93A1A1',
+  },
+  'solarized-light': {
+    canvasBg: '#FDF6E3',
+    accent: '#268BD2',
+    heatMin: '#EEE8D5',
+    heatMax: '#93A1A1',
+    textPrimary: '#073642',
+    textSecondary: '#586E75',
+  },
+  'high-contrast': {
+    canvasBg: '#000000',
+    accent: '#FFFF00',
+    heatMin: '#1A1A1A',
+    heatMax: '#0050C8',
+    textPrimary: '#FFFFFF',
+    textSecondary: '#FFFFFF',
+  },
+};
+
+export const THEME_NAMES = Object.keys(THEMES) as ThemeName[];
+
+// Palettes embedded by theme 'auto' unless lightTheme/darkTheme are given
+export const DEFAULT_AUTO_THEMES: { light: ThemeName; dark: ThemeName } = {
+  light: 'github-light',
+  dark: 'github-dark',
+};
+
+// Validate a CSS color but keep it as written
+function validateColor(color: string): string {
+  parseColor(color);
+  return color;
+}
+
+const PALETTE_KEYS: Exclude<keyof ThemePalette, 'heatStops'>[] = [
+  'canvasBg',
+  'accent',
+  'heatMin',
+  'heatMax',
+  'textPrimary',
+  'textSecondary',
+];
+
+export function isThemeName(value: string): value is ThemeName {
+  return Object.prototype.hasOwnProperty.call(THEMES, value);
+}
+
+/**
+ * Validate a theme loaded from JSON. A theme may `extends` a built-in theme
+ * and override only some of its colors.
+ */
+export function parseTheme(input: unknown): ThemePalette {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Theme must be a JSON object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const base = raw.extends ?? 'default';
+  if (typeof base !== 'string' || !isThemeName(base)) {
+    throw new Error(`Unknown base theme: ${String(base)}`);
+  }
+
+  const palette: ThemePalette = { ...THEMES[base] };
+
+  if (raw.heatStops !== undefined) {
+    if (!Array.isArray(raw.heatStops) || raw.heatStops.some((c) => typeof c !== 'string')) {
+      throw new Error('Theme "heatStops" must be an array of color strings');
+    }
+    palette.heatStops = raw.heatStops.map((c) => validateColor(c as string));
+  }
+
+  for (const key of PALETTE_KEYS) {
+    const value = raw[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`Theme color "${key}" must be a non-empty string`);
+    }
+    palette[key] = validateColor(value);
+  }
+
+  return palette;
+}
+
+export function resolveTheme(theme: ThemeName | ThemePalette): ThemePalette {
+  if (typeof theme !== 'string') return theme;
+  if (!isThemeName(theme)) throw new Error(`Unknown theme: ${theme}`);
+  return THEMES[theme];
+}
+
+/**
+ * Renderer config for a theme option; 'auto' embeds a light and a dark palette
+ */
+export function themeConfig(
+  theme?: ThemeName | ThemePalette | 'auto',
+  lightTheme: ThemeName | ThemePalette = DEFAULT_AUTO_THEMES.light,
+  darkTheme: ThemeName | ThemePalette = DEFAULT_AUTO_THEMES.dark
+): Partial<TreemapConfig> {
+  if (theme === undefined) return {};
+  if (theme === 'auto') {
+    return { colorScheme: { light: resolveTheme(lightTheme), dark: resolveTheme(darkTheme) } };
+  }
+  return { ...resolveTheme(theme) };
+}
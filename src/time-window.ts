@@ -0,0 +1,101 @@
+import type { TimeWindow, TimeWindowOptions } from './types';
+import { TIME_WINDOW } from './constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function parseDate(value: string | Date, endOfDay = false): Date {
+  if (value instanceof Date) return new Date(value.getTime());
+
+  // Bare dates (YYYY-MM-DD) are read as UTC; "until" covers the whole day
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T${endOfDay ? '23:59:59' : '00:00:00'}Z` : value);
+  if (Number.isNaN(date.getTime())) throw new Error(`Invalid date: ${value}`);
+  return date;
+}
+
+/**
+ * Resolve the user-facing window options into concrete dates.
+ * Returns undefined for an all-time window.
+ */
+export function resolveTimeWindow(
+  options: TimeWindowOptions,
+  now: Date = new Date()
+): TimeWindow | undefined {
+  const { since, until, lastDays, year } = options;
+
+  if (year !== undefined) {
+    if (since !== undefined || until !== undefined || lastDays !== undefined) {
+      throw new Error('year cannot be combined with since, until or lastDays');
+    }
+    const start = new Date(Date.UTC(year, 0, 1));
+    const end = new Date(Date.UTC(year + 1, 0, 1) - 1000);
+    return { since: start, until: end < now ? end : new Date(now.getTime()) };
+  }
+
+  if (lastDays !== undefined) {
+    if (since !== undefined) throw new Error('lastDays cannot be combined with since');
+    const end = until !== undefined ? parseDate(until, true) : new Date(now.getTime());
+    return { since: new Date(end.getTime() - lastDays * DAY_MS), until: end };
+  }
+
+  if (since === undefined && until === undefined) return undefined;
+
+  const window: TimeWindow = {
+    since: since !== undefined ? parseDate(since) : undefined,
+    until: until !== undefined ? parseDate(until, true) : undefined,
+  };
+
+  if (window.since && window.until && window.since > window.until) {
+    throw new Error('since must be before until');
+  }
+
+  return window;
+}
+
+export function formatSearchDate(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+/**
+ * Search qualifier for a window, e.g. `merged:2024-01-01T00:00:00Z..2024-06-30T23:59:59Z`
+ */
+export function timeWindowQualifier(field: string, window?: TimeWindow): string {
+  if (!window || (!window.since && !window.until)) return '';
+  if (window.since && window.until) {
+    return `${field}:${formatSearchDate(window.since)}..${formatSearchDate(window.until)}`;
+  }
+  if (window.since) return `${field}:>=${formatSearchDate(window.since)}`;
+  return `${field}:<=${formatSearchDate(window.until as Date)}`;
+}
+
+/**
+ * Split a bounded window into consecutive sub-windows no longer than maxDays.
+ * Windows without a start are returned as-is.
+ */
+export function splitTimeWindow(
+  window: TimeWindow,
+  maxDays: number = TIME_WINDOW.MAX_RANGE_DAYS,
+  now: Date = new Date()
+): TimeWindow[] {
+  if (!window.since) return [window];
+
+  const end = window.until ?? now;
+  const maxMs = maxDays * DAY_MS;
+  const parts: TimeWindow[] = [];
+
+  let start = window.since.getTime();
+  while (start <= end.getTime()) {
+    const partEnd = Math.min(start + maxMs - 1000, end.getTime());
+    parts.push({ since: new Date(start), until: new Date(partEnd) });
+    start = partEnd + 1000;
+  }
+
+  return parts;
+}
+
+export function isInTimeWindow(date: Date, window?: TimeWindow): boolean {
+  if (!window) return true;
+  if (window.since && date < window.since) return false;
+  if (window.until && date > window.until) return false;
+  return true;
+}
@@ -1,43 +1,120 @@
-import type { TreemapConfig, TreemapNode } from './types';
-import { DEFAULT_CONFIG, FONT_SIZES, LAYOUT } from './constants';
+import type {
+  MemberContribution,
+  NormalizedRepository,
+  RepositoryMetric,
+  ThemePalette,
+  TreemapConfig,
+  TreemapGroupNode,
+  TreemapNode,
+} from './types';
 import {
-  formatStars,
-  escapeXml,
-  chooseFontSizeToFit,
-  truncateWithEllipsis,
-  interpolateHexColor,
-} from './utils';
+  ACCESSIBILITY,
+  AVATAR,
+  CHROME,
+  CONTRIBUTION_KINDS,
+  CONTRIBUTION_LABELS,
+  DEFAULT_CONFIG,
+  FONT_EMBED,
+  FONT_SIZES,
+  GROUPING,
+  LAYOUT,
+  LEGEND,
+  MEMBERS,
+  METRIC_LABELS,
+} from './constants';
+import { escapeXml, chooseFontSizeToFit, estimateTextWidth, truncateWithEllipsis } from './utils';
+import { createColorScale, ensureContrast, mostReadable } from './color';
+import type { ParsedFont } from './font';
+import { fontFaceRule, textToPath } from './font-embed';
+import { createFontMeasurer } from './text-metrics';
+
+import { metricValue, scaledMetric } from './metrics';
+import { languageColor, topLanguages } from './languages';
+import { isOtherBucket } from './long-tail';
+import { showsAvatar } from './avatars';
+import { memberColors } from './team';
+import { layoutMemberTiles } from './d3-wrapper';
+import { fillLabelLine, parseLabelTemplate, type LabelContext, type LabelLine } from './labels';
+
+type TextRole = 'primary' | 'secondary';
+type TextLine = { text: string; size: number; bold: boolean; role: TextRole };
+// What text is drawn on, for contrast checks; key names the per-background CSS class.
+// flip swaps the theme's text color for the canvas color where that reads better.
+type TextBackground = { key: string; color: (palette: ThemePalette) => string; flip?: boolean };
+
+const CANVAS: TextBackground = { key: 'canvas', color: (p) => p.canvasBg };
+
+// Repositories the tiles stand for, counting everything in the "Other" bucket
+const repositoryCount = (repos: NormalizedRepository[]) =>
+  repos.reduce((sum, d) => sum + (d.otherCount ?? 1), 0);
 
 export class TreemapRenderer {
   private config: TreemapConfig;
+  // Light/dark CSS rules collected during a render when colorScheme is set
+  private styleRules = new Map<string, { attr: 'fill' | 'stroke'; light: string; dark: string }>();
+  private heatScales = new WeakMap<ThemePalette, (t: number) => string>();
+  // Label text drawn so far, for font subsetting
+  private usedText = '';
+  private labelLines: LabelLine[];
+  private labelContext: LabelContext;
+  // Full numbers, and short ones like 12.3K for stars and legend values
+  private formatNumber: (value: number) => string;
+  private formatCompact: (value: number) => string;
 
   constructor(config: Partial<TreemapConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+
+    const full = new Intl.NumberFormat(this.config.locale);
+    const compact = new Intl.NumberFormat(this.config.locale, {
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    });
+    this.formatNumber = (value) => full.format(value);
+    this.formatCompact = (value) => compact.format(value);
+
+    this.labelLines = parseLabelTemplate(this.config.labelTemplate);
+    this.labelContext = {
+      formatNumber: this.formatCompact,
+      minStars: this.config.minStars,
+      hiddenOwners: new Set(this.config.hideOwners.map((owner) => owner.toLowerCase())),
+    };
   }
 
-  render(leaves: TreemapNode[]): string {
+  render(leaves: TreemapNode[], groups: TreemapGroupNode[] = []): string {
+    this.styleRules.clear();
+    this.usedText = '';
+
     if (leaves.length === 0) {
       return this.renderEmptyState();
     }
 
     const padding = LAYOUT.PADDING;
 
-    let rects = '';
+    let rects = this.renderGroups(groups);
     let clips = '';
-    let texts = '';
 
-    // Calculate heat range across all leaves
-    let minContrib = Infinity;
-    let maxContrib = -Infinity;
+    // Calculate heat range across all leaves for the selected color metric
+    const { colorBy, colorScale } = this.config;
+    const byLanguage = colorBy === 'language';
+    const heatValue = (node: TreemapNode) =>
+      colorBy === 'language' ? 0 : scaledMetric(node.data, colorBy, colorScale);
+
+    // Team treemaps color each member's share the same on every tile
+    const { memberBreakdown } = this.config;
+    const colors =
+      memberBreakdown === 'none' ? undefined : memberColors(leaves.map((node) => node.data));
+
+    let minHeat = Infinity;
+    let maxHeat = -Infinity;
 
     for (const node of leaves) {
-      const c = Math.max(0, Number(node?.data?.contribs || 0));
-      if (c < minContrib) minContrib = c;
-      if (c > maxContrib) maxContrib = c;
+      const v = heatValue(node);
+      if (v < minHeat) minHeat = v;
+      if (v > maxHeat) maxHeat = v;
     }
 
-    if (!isFinite(minContrib)) minContrib = 0;
-    if (!isFinite(maxContrib)) maxContrib = 0;
+    if (!isFinite(minHeat)) minHeat = 0;
+    if (!isFinite(maxHeat)) maxHeat = 0;
 
     leaves.forEach((node, idx) => {
       const d = node.data;
@@ -49,98 +126,421 @@ export class TreemapRenderer {
 
       // Calculate heat color
       let heatT = 0;
-      if (maxContrib === minContrib) {
-        heatT = maxContrib > 0 ? 1 : 0;
+      if (maxHeat === minHeat) {
+        heatT = maxHeat > 0 ? 1 : 0;
       } else {
-        const c = Math.max(0, Number(d?.contribs || 0));
-        heatT = (c - minContrib) / Math.max(1, maxContrib - minContrib);
+        heatT = (heatValue(node) - minHeat) / (maxHeat - minHeat);
       }
 
-      const fill = interpolateHexColor(this.config.heatMin, this.config.heatMax, heatT);
+      const tileColor = byLanguage
+        ? () => languageColor(d, this.config.languageFallback)
+        : (p: ThemePalette) => this.heatColor(p, heatT);
+      const fill = this.paint('fill', `tile_${idx}`, tileColor);
 
-      rects += `<rect x="${x}" y="${y}" width="${w}" height="${h}" fill="${fill}"/>`;
+      const rect = `<rect x="${x}" y="${y}" width="${w}" height="${h}" ${fill}/>`;
       clips += `<clipPath id="${id}"><rect x="${x}" y="${y}" width="${w}" height="${h}"/></clipPath>`;
 
-      const maxTextWidth = Math.max(0, w - padding * 2);
+      // Owner avatar in the top-right corner; labels keep clear of it
+      const avatar = this.avatarFor(d, w, h);
+      let image = '';
+      if (avatar) {
+        const r = AVATAR.SIZE / 2;
+        const cx = x + w - padding - r;
+        const cy = y + padding + r;
+        clips += `<clipPath id="avatar_${idx}"><circle cx="${cx}" cy="${cy}" r="${r}"/></clipPath>`;
+        image = `<image href="${escapeXml(avatar)}" x="${cx - r}" y="${cy - r}" width="${AVATAR.SIZE}" height="${AVATAR.SIZE}" preserveAspectRatio="xMidYMid slice" clip-path="url(#avatar_${idx})" aria-hidden="true"/>`;
+      }
+
+      const maxTextWidth = Math.max(0, w - padding * 2 - (avatar ? AVATAR.SIZE + padding : 0));
       const startX = x + padding;
       const startY = y + padding;
-      const availableHeight = Math.max(0, h - padding * 2);
+      // Member bands take a strip along the bottom of the tile
+      const members = colors && d.members?.length ? d.members : undefined;
+      const bandHeight =
+        members && memberBreakdown === 'bands'
+          ? Math.min(MEMBERS.BAND_HEIGHT, Math.floor(h / 4))
+          : 0;
+      const availableHeight = Math.max(0, h - padding * 2 - bandHeight);
+
+      const lines = this.fitLabelLines(d, maxTextWidth, availableHeight, h);
+
+      // Tiles that cannot fit even minimum-size text get none rather than clipped slivers
+      const fitsText = availableHeight >= FONT_SIZES.MIN && maxTextWidth >= FONT_SIZES.MIN;
+      const text =
+        fitsText && lines.length > 0
+          ? this.renderTextBlock(
+              lines,
+              startX,
+              startY,
+              id,
+              // Language colors range from navy to JavaScript yellow, so text flips per tile
+              { key: `tile_${idx}`, color: tileColor, flip: byLanguage }
+            )
+          : '';
+
+      let breakdown = '';
+      if (members && colors) {
+        const textHeight = text
+          ? lines.reduce((sum, line) => sum + line.size, 0) + FONT_SIZES.GAP * (lines.length - 1)
+          : 0;
+        breakdown =
+          memberBreakdown === 'bands'
+            ? this.renderMemberBands(members, colors, x, y + h - bandHeight, w, bandHeight)
+            : this.renderMemberTiles(members, colors, x, y, w, h, textHeight);
+      }
 
-      // Calculate font sizes
-      let nameDesired = Math.min(FONT_SIZES.NAME_DESIRED, Math.floor(h * 0.34));
-      let ownerDesired = Math.max(FONT_SIZES.MIN, Math.floor(nameDesired * FONT_SIZES.OWNER_RATIO));
-      let starDesired = Math.max(FONT_SIZES.MIN, Math.floor(nameDesired * FONT_SIZES.STARS_RATIO));
+      // Link and untruncated details for SVG viewers, screen readers and the HTML output
+      const title = this.tileTitle(d);
+      const href = d.url ? ` href="${escapeXml(d.url)}" target="_blank"` : '';
+      const label = this.config.accessible
+        ? ` aria-label="${escapeXml(title.replace(/\n/g, ', '))}"`
+        : '';
+      rects += `<a${href}${label}><title>${escapeXml(title)}</title>${rect}${breakdown}${image}${text}</a>`;
+    });
 
-      let nameSize = Math.max(
-        FONT_SIZES.MIN,
-        chooseFontSizeToFit(d.label, maxTextWidth, nameDesired, FONT_SIZES.MIN) || FONT_SIZES.MIN
-      );
-      let ownerSize = Math.max(
+    return this.wrapSvg(rects, clips, this.renderChrome(leaves), this.describe(leaves));
+  }
+
+  /**
+   * A team tile's members as stacked bands, left to right by contributions
+   */
+  private renderMemberBands(
+    members: MemberContribution[],
+    colors: Map<string, string>,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): string {
+    const total = members.reduce((sum, member) => sum + member.contribs, 0);
+    if (height <= 0 || total === 0) return '';
+
+    let out = '';
+    let done = 0;
+    for (const member of members) {
+      const x0 = x + Math.round((done / total) * width);
+      done += member.contribs;
+      const x1 = x + Math.round((done / total) * width);
+      if (x1 > x0) out += this.memberRect(member, colors, x0, y, x1 - x0, height);
+    }
+    return out;
+  }
+
+  /**
+   * A team tile's members as sub-tiles in the space below its label, left out when
+   * too little is free
+   */
+  private renderMemberTiles(
+    members: MemberContribution[],
+    colors: Map<string, string>,
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    textHeight: number
+  ): string {
+    const padding = LAYOUT.PADDING;
+    const top = y + padding + (textHeight > 0 ? textHeight + padding : 0);
+    const rect = { x: x + padding, y: top, width: w - padding * 2, height: y + h - padding - top };
+    if (Math.min(rect.width, rect.height) < MEMBERS.MIN_TILES_HEIGHT) return '';
+
+    return layoutMemberTiles(members, rect)
+      .map((tile) => {
+        const member = members.find((m) => m.login === tile.login) as MemberContribution;
+        return this.memberRect(member, colors, tile.x, tile.y, tile.width, tile.height);
+      })
+      .join('');
+  }
+
+  private memberRect(
+    member: MemberContribution,
+    colors: Map<string, string>,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): string {
+    const title = `${member.login}: ${this.formatNumber(member.contribs)} contributions`;
+    return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${colors.get(member.login)}"><title>${escapeXml(title)}</title></rect>`;
+  }
+
+  /**
+   * Data URI of the tile owner's avatar when one was loaded and the tile is large enough
+   */
+  private avatarFor(d: NormalizedRepository, w: number, h: number): string | undefined {
+    const { avatars, avatarMinSize } = this.config;
+    if (!avatars || isOtherBucket(d) || !showsAvatar(w, h, avatarMinSize)) return undefined;
+    return avatars[d.owner.toLowerCase()];
+  }
+
+  /**
+   * Filled label template lines of a tile with font sizes that fit it. The first line
+   * is sized from the tile height and later ones in proportion; sizes shrink until the
+   * block fits, then trailing lines that still overflow are left out.
+   */
+  private fitLabelLines(
+    d: NormalizedRepository,
+    maxWidth: number,
+    maxHeight: number,
+    tileHeight: number
+  ): TextLine[] {
+    const lines = this.labelLines
+      .map((line) => ({ text: fillLabelLine(line, d, this.labelContext), bold: line.bold }))
+      .filter((line) => line.text);
+    const measure = (bold: boolean) => ({ measurer: this.config.textMeasurer, bold });
+
+    const firstDesired = Math.min(FONT_SIZES.NAME_DESIRED, Math.floor(tileHeight * 0.34));
+    const sizes = lines.map((line, i) => {
+      const ratio = line.bold ? FONT_SIZES.STARS_RATIO : FONT_SIZES.OWNER_RATIO;
+      const desired =
+        i === 0 ? firstDesired : Math.max(FONT_SIZES.MIN, Math.floor(firstDesired * ratio));
+      return Math.max(
         FONT_SIZES.MIN,
-        chooseFontSizeToFit(d.owner, maxTextWidth, ownerDesired, FONT_SIZES.MIN) || FONT_SIZES.MIN
+        chooseFontSizeToFit(line.text, maxWidth, desired, FONT_SIZES.MIN, measure(line.bold)) ||
+          FONT_SIZES.MIN
       );
+    });
 
-      let starSize = 0;
-      let starsLabel = '';
-
-      if (d.stars >= 100) {
-        starsLabel = `★ ${formatStars(d.stars)}`;
-        starSize = Math.max(
-          FONT_SIZES.MIN,
-          chooseFontSizeToFit(starsLabel, maxTextWidth, starDesired, FONT_SIZES.MIN) ||
-            FONT_SIZES.MIN
-        );
+    const blockHeight = () =>
+      sizes.reduce((sum, size) => sum + size, 0) + FONT_SIZES.GAP * (sizes.length - 1);
+
+    // Adjust font sizes to fit available height
+    const totalH = blockHeight();
+    if (totalH > maxHeight && totalH > 0) {
+      const factor = maxHeight / totalH;
+      sizes.forEach((size, i) => {
+        sizes[i] = Math.max(FONT_SIZES.MIN, Math.floor(size * factor));
+      });
+      while (blockHeight() > maxHeight && sizes.some((size) => size > FONT_SIZES.MIN)) {
+        sizes.forEach((size, i) => {
+          if (size > FONT_SIZES.MIN) sizes[i] = size - 1;
+        });
       }
+    }
+    while (sizes.length > 1 && blockHeight() > maxHeight) sizes.pop();
+
+    return sizes.map((size, i) => ({
+      text: truncateWithEllipsis(lines[i].text, maxWidth, size, measure(lines[i].bold)),
+      size,
+      bold: lines[i].bold,
+      role: lines[i].bold ? 'primary' : 'secondary',
+    }));
+  }
+
+  /**
+   * Header above the tiles, legend and footer below them, in the space chromeInsets
+   * leaves free
+   */
+  private renderChrome(leaves: TreemapNode[]): string {
+    const { width, height, header, legend, footer } = this.config;
+    const maxWidth = width - LAYOUT.PADDING * 2;
+    let out = '';
+
+    if (header) {
+      const size = CHROME.HEADER_FONT_SIZE;
+      const text = truncateWithEllipsis(header, maxWidth, size, {
+        measurer: this.config.textMeasurer,
+        bold: true,
+      });
+      out += this.renderLabel(text, LAYOUT.PADDING, CHROME.HEADER_HEIGHT / 2, {
+        size,
+        bold: true,
+        role: 'primary',
+        background: CANVAS,
+      });
+    }
 
-      // Adjust font sizes to fit available height
-      let totalH =
-        nameSize + FONT_SIZES.GAP + ownerSize + (starSize > 0 ? FONT_SIZES.GAP + starSize : 0);
-
-      if (totalH > availableHeight && totalH > 0) {
-        const factor = availableHeight / totalH;
-        nameSize = Math.max(FONT_SIZES.MIN, Math.floor(nameSize * factor));
-        ownerSize = Math.max(FONT_SIZES.MIN, Math.floor(ownerSize * factor));
-        if (starSize > 0) starSize = Math.max(FONT_SIZES.MIN, Math.floor(starSize * factor));
-
-        totalH =
-          nameSize + FONT_SIZES.MIN + ownerSize + (starSize > 0 ? FONT_SIZES.GAP + starSize : 0);
-
-        while (
-          totalH > availableHeight &&
-          (nameSize > FONT_SIZES.MIN || ownerSize > FONT_SIZES.MIN || starSize > FONT_SIZES.MIN)
-        ) {
-          if (nameSize > FONT_SIZES.MIN) nameSize--;
-          if (ownerSize > FONT_SIZES.MIN) ownerSize--;
-          if (starSize > FONT_SIZES.MIN) starSize--;
-          totalH =
-            nameSize + FONT_SIZES.GAP + ownerSize + (starSize > 0 ? FONT_SIZES.GAP + starSize : 0);
-        }
+    let bottom = height;
+    if (footer) {
+      bottom -= CHROME.FOOTER_HEIGHT;
+      const size = CHROME.FOOTER_FONT_SIZE;
+      const text = truncateWithEllipsis(this.footerText(leaves), maxWidth, size, {
+        measurer: this.config.textMeasurer,
+        bold: false,
+      });
+      out += this.renderLabel(text, LAYOUT.PADDING, bottom + CHROME.FOOTER_HEIGHT / 2, {
+        size,
+        bold: false,
+        role: 'secondary',
+        background: CANVAS,
+      });
+    }
+
+    if (legend) {
+      const mid = bottom - LEGEND.HEIGHT / 2;
+      const hasMembers = leaves.some((node) => node.data.members?.length);
+      if (this.config.memberBreakdown !== 'none' && hasMembers) {
+        out += this.renderMemberLegend(leaves, mid);
+      } else {
+        out +=
+          this.config.colorBy === 'language'
+            ? this.renderLanguageLegend(leaves, mid)
+            : this.renderHeatLegend(leaves, this.config.colorBy, mid);
       }
+    }
 
-      // Prepare text content
-      const nameText = truncateWithEllipsis(String(d.label), maxTextWidth, nameSize);
-      const ownerText = truncateWithEllipsis(String(d.owner), maxTextWidth, ownerSize);
-      const starsText =
-        starSize > 0 ? truncateWithEllipsis(starsLabel, maxTextWidth, starSize) : '';
+    return out;
+  }
 
-      // Build text elements
-      let dy = 0;
-      let lines = '';
+  // e.g. "42 repositories · 1,234 contributions · ★ 56.7k · Generated 2024-06-01"
+  private footerText(leaves: TreemapNode[]): string {
+    const repos = leaves.map((node) => node.data);
+    const count = repositoryCount(repos);
+    const contribs = repos.reduce((sum, d) => sum + d.contribs, 0);
+    const stars = repos.reduce((sum, d) => sum + d.stars, 0);
+    const date = (this.config.generatedAt ?? new Date()).toISOString().slice(0, 10);
+
+    return [
+      `${this.formatNumber(count)} ${count === 1 ? 'repository' : 'repositories'}`,
+      `${this.formatNumber(contribs)} contributions`,
+      `★ ${this.formatCompact(stars)}`,
+      `Generated ${date}`,
+    ].join(' · ');
+  }
 
-      lines += `<tspan x="${startX}" dy="${dy}" fill="${this.config.textPrimary}" font-size="${nameSize}" font-weight="700">${escapeXml(nameText)}</tspan>`;
+  /**
+   * Metric name, lowest value, the heat gradient and highest value, left to right
+   */
+  private renderHeatLegend(
+    leaves: TreemapNode[],
+    metric: RepositoryMetric,
+    mid: number
+  ): string {
+    const measure = { measurer: this.config.textMeasurer, bold: false };
+    const values = leaves.map((node) => metricValue(node.data, metric));
+    const format = this.formatCompact;
+    const label = (text: string, x: number) =>
+      this.renderLabel(text, x, mid, {
+        size: LEGEND.FONT_SIZE,
+        bold: false,
+        role: 'secondary',
+        background: CANVAS,
+      });
+    const advance = (text: string) =>
+      Math.ceil(estimateTextWidth(text, LEGEND.FONT_SIZE, measure)) + LEGEND.GAP;
+
+    const caption = METRIC_LABELS[metric];
+    const min = format(Math.min(...values));
+    let x = LAYOUT.PADDING;
+    let out = label(caption, x);
+    x += advance(caption) + LEGEND.GAP;
+    out += label(min, x);
+    x += advance(min);
+
+    const steps = this.config.heatBuckets ?? LEGEND.BAR_STEPS;
+    const stepWidth = LEGEND.BAR_WIDTH / steps;
+    for (let i = 0; i < steps; i++) {
+      const t = steps === 1 ? 1 : i / (steps - 1);
+      const fill = this.paint('fill', `legend-heat-${i}`, (p) => this.heatColor(p, t));
+      out += `<rect x="${x + i * stepWidth}" y="${mid - LEGEND.SWATCH_SIZE / 2}" width="${Math.ceil(stepWidth)}" height="${LEGEND.SWATCH_SIZE}" ${fill}/>`;
+    }
+    x += LEGEND.BAR_WIDTH + LEGEND.GAP;
+    out += label(format(Math.max(...values)), x);
 
-      dy = Math.max(FONT_SIZES.GAP, Math.round(ownerSize + FONT_SIZES.GAP));
-      lines += `<tspan x="${startX}" dy="${dy}" fill="${this.config.textSecondary}" font-size="${ownerSize}" font-weight="400">${escapeXml(ownerText)}</tspan>`;
+    return `<g class="legend">${out}</g>`;
+  }
 
-      if (starsText) {
-        dy = Math.max(FONT_SIZES.GAP, Math.round(starSize + FONT_SIZES.GAP));
-        lines += `<tspan x="${startX}" dy="${dy}" fill="${this.config.textPrimary}" font-size="${starSize}" font-weight="700">${escapeXml(starsText)}</tspan>`;
+  /**
+   * Swatches and names of the most common languages, as many as fit in the strip
+   */
+  private renderLanguageLegend(leaves: TreemapNode[], mid: number): string {
+    const { languageFallback } = this.config;
+    const repos = leaves.map((node) => node.data);
+
+    const colors = new Map<string, string>();
+    for (const d of repos) {
+      if (d.language && !colors.has(d.language)) {
+        colors.set(d.language, languageColor(d, languageFallback));
       }
+    }
+    const entries = topLanguages(repos).map((label) => ({
+      label,
+      color: colors.get(label) as string,
+    }));
+    if (repos.some((d) => !d.language)) entries.push({ label: 'Other', color: languageFallback });
 
-      texts += `<text x="${startX}" y="${startY}" clip-path="url(#${id})" dominant-baseline="hanging" font-family="${this.config.fontFamily}">${lines}</text>`;
-    });
+    return this.renderSwatchLegend(entries, mid);
+  }
+
+  /**
+   * Members of a team treemap by total contributions, with their breakdown colors
+   */
+  private renderMemberLegend(leaves: TreemapNode[], mid: number): string {
+    const colors = memberColors(leaves.map((node) => node.data));
+    return this.renderSwatchLegend(
+      [...colors].map(([label, color]) => ({ label, color })),
+      mid
+    );
+  }
+
+  /**
+   * Color swatches with labels, left to right, as many as fit
+   */
+  private renderSwatchLegend(
+    entries: Array<{ label: string; color: string }>,
+    mid: number
+  ): string {
+    const { width } = this.config;
+    const measure = { measurer: this.config.textMeasurer, bold: false };
+
+    let x = LAYOUT.PADDING;
+    let out = '';
+    for (const { label, color } of entries) {
+      const itemWidth =
+        LEGEND.SWATCH_SIZE +
+        LEGEND.GAP +
+        Math.ceil(estimateTextWidth(label, LEGEND.FONT_SIZE, measure));
+      if (x + itemWidth > width - LAYOUT.PADDING) break;
+
+      out += `<rect x="${x}" y="${mid - LEGEND.SWATCH_SIZE / 2}" width="${LEGEND.SWATCH_SIZE}" height="${LEGEND.SWATCH_SIZE}" rx="2" fill="${color}"/>`;
+      out += this.renderLabel(label, x + LEGEND.SWATCH_SIZE + LEGEND.GAP, mid, {
+        size: LEGEND.FONT_SIZE,
+        bold: false,
+        role: 'secondary',
+        background: CANVAS,
+      });
+      x += itemWidth + LEGEND.ITEM_GAP;
+    }
 
-    return this.wrapSvg(rects, clips, texts);
+    return `<g class="legend">${out}</g>`;
+  }
+
+  /**
+   * Group parents: a bordered rectangle with the group name in its header strip
+   */
+  private renderGroups(groups: TreemapGroupNode[]): string {
+    let out = '';
+
+    for (const node of groups) {
+      const x = Math.floor(node.x0);
+      const y = Math.floor(node.y0);
+      const w = Math.floor(node.x1 - node.x0);
+      const h = Math.floor(node.y1 - node.y0);
+      if (w < 2 || h < 2) continue;
+
+      const border = `<rect x="${x + 0.5}" y="${y + 0.5}" width="${w - 1}" height="${h - 1}" fill="none" ${this.paint('stroke', 'group-border', (p) => p.accent)} stroke-opacity="0.5"/>`;
+
+      const maxTextWidth = Math.max(0, w - LAYOUT.PADDING * 2);
+      const label = truncateWithEllipsis(node.data.label, maxTextWidth, GROUPING.FONT_SIZE, {
+        measurer: this.config.textMeasurer,
+        bold: true,
+      });
+      const header =
+        label && h >= GROUPING.HEADER_HEIGHT
+          ? this.renderLabel(label, x + LAYOUT.PADDING, y + GROUPING.HEADER_HEIGHT / 2, {
+              size: GROUPING.FONT_SIZE,
+              bold: true,
+              role: 'secondary',
+              background: CANVAS,
+            })
+          : '';
+
+      const title = escapeXml(`${node.data.label} (${node.data.children.length} repositories)`);
+      const aria = this.config.accessible ? ` role="group" aria-label="${title}"` : '';
+      out += `<g data-group="${escapeXml(node.data.id)}"${aria}><title>${title}</title>${border}${header}</g>`;
+    }
+
+    return out;
   }
 
   private renderEmptyState(): string {
@@ -150,17 +550,219 @@ export class TreemapRenderer {
     return this.wrapSvg(
       '',
       '',
-      `<text x="${Math.floor(width / 2)}" y="${Math.floor(height / 2)}" fill="${this.config.textPrimary}" font-size="14" font-family="${this.config.fontFamily}" text-anchor="middle" dominant-baseline="middle">${escapeXml(msg)}</text>`
+      this.renderLabel(msg, Math.floor(width / 2), Math.floor(height / 2), {
+        size: 14,
+        bold: false,
+        role: 'primary',
+        anchor: 'middle',
+        background: CANVAS,
+      }),
+      msg,
+      false
     );
   }
 
-  private wrapSvg(rects: string, clips: string, texts: string): string {
-    const { width, height, canvasBg } = this.config;
+  /**
+   * Summary for the SVG's <desc>: repository count, total and the top contributions
+   */
+  private describe(leaves: TreemapNode[]): string {
+    const repos = leaves.map((node) => node.data);
+    const total = repos.reduce((sum, d) => sum + d.contribs, 0);
+    const top = repos
+      .filter((d) => d.otherCount === undefined)
+      .sort((a, b) => b.contribs - a.contribs)
+      .slice(0, ACCESSIBILITY.SUMMARY_REPOS)
+      .map((d) => `${d.id} (${this.formatNumber(d.contribs)})`);
+
+    const n = repositoryCount(repos);
+    const count = `${n} ${n === 1 ? 'repository' : 'repositories'}`;
+    return `Treemap of ${count} with ${this.formatNumber(total)} contributions in total. Most contributions: ${top.join(', ')}.`;
+  }
+
+  /**
+   * Full name, stars and per-kind contribution counts of a tile
+   */
+  private tileTitle(d: NormalizedRepository): string {
+    const lines = [
+      d.otherCount === undefined ? d.id : d.label,
+      `★ ${this.formatNumber(d.stars)} stars`,
+    ];
+    if (d.language) lines.push(d.language);
+    for (const kind of CONTRIBUTION_KINDS) {
+      const count = d.contributions[kind];
+      if (count) lines.push(`${this.formatNumber(count)} ${CONTRIBUTION_LABELS[kind]}`);
+    }
+    for (const member of d.members ?? []) {
+      lines.push(`${member.login}: ${this.formatNumber(member.contribs)} contributions`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Text color for a role; flipping backgrounds pick the more readable of the text
+   * and canvas colors, and in accessible mode it is adjusted per background until
+   * it meets minContrast
+   */
+  private textFill(role: TextRole, background?: TextBackground): string {
+    const base = (p: ThemePalette) => (role === 'primary' ? p.textPrimary : p.textSecondary);
+    if (!background || (!this.config.accessible && !background.flip)) {
+      return this.paint('fill', `text-${role}`, base);
+    }
+
+    return this.paint('fill', `${background.key}-text-${role}`, (p) => {
+      const fill = background.color(p);
+      const text = background.flip ? mostReadable(fill, [base(p), p.canvasBg]) : base(p);
+      return this.config.accessible ? ensureContrast(text, fill, this.config.minContrast) : text;
+    });
+  }
+
+  private get fontFamilyAttr(): string {
+    return this.config.fontMode === 'embed'
+      ? `'${FONT_EMBED.FAMILY}', ${this.config.fontFamily}`
+      : this.config.fontFamily;
+  }
+
+  private requireFont(): ParsedFont {
+    if (!this.config.font) throw new Error(`fontMode '${this.config.fontMode}' needs a font`);
+    return this.config.font;
+  }
+
+  /**
+   * Stacked lines at the top-left of a tile, top edge of the first line at y
+   */
+  private renderTextBlock(
+    lines: TextLine[],
+    x: number,
+    y: number,
+    clipId: string,
+    background?: TextBackground
+  ): string {
+    if (this.config.fontMode === 'paths') {
+      const font = this.requireFont();
+      let top = y;
+      let paths = '';
+      lines.forEach((line, i) => {
+        if (i > 0) top += Math.max(FONT_SIZES.GAP, Math.round(line.size + FONT_SIZES.GAP));
+        const baseline = top + (font.ascender / font.unitsPerEm) * line.size;
+        const d = textToPath(font, line.text, x, baseline, line.size);
+        if (d) paths += `<path d="${d}" ${this.textFill(line.role, background)}/>`;
+      });
+      return `<g clip-path="url(#${clipId})">${paths}</g>`;
+    }
+
+    let dy = 0;
+    let tspans = '';
+    lines.forEach((line, i) => {
+      if (i > 0) dy = Math.max(FONT_SIZES.GAP, Math.round(line.size + FONT_SIZES.GAP));
+      this.usedText += line.text;
+      tspans += `<tspan x="${x}" dy="${dy}" ${this.textFill(line.role, background)} font-size="${line.size}" font-weight="${line.bold ? 700 : 400}">${escapeXml(line.text)}</tspan>`;
+    });
+
+    return `<text x="${x}" y="${y}" clip-path="url(#${clipId})" dominant-baseline="hanging" font-family="${this.fontFamilyAttr}">${tspans}</text>`;
+  }
+
+  /**
+   * Single vertically centered label
+   */
+  private renderLabel(
+    text: string,
+    x: number,
+    y: number,
+    options: {
+      size: number;
+      bold: boolean;
+      role: TextRole;
+      anchor?: 'start' | 'middle';
+      background?: TextBackground;
+    }
+  ): string {
+    const { size, bold, role, anchor = 'start', background } = options;
+
+    if (this.config.fontMode === 'paths') {
+      const font = this.requireFont();
+      const width = anchor === 'middle' ? createFontMeasurer(font).measure(text, size) : 0;
+      const baseline = y + ((font.ascender + font.descender) / 2 / font.unitsPerEm) * size;
+      const d = textToPath(font, text, x - width / 2, baseline, size);
+      return d ? `<path d="${d}" ${this.textFill(role, background)}/>` : '';
+    }
+
+    this.usedText += text;
+    return `<text x="${x}" y="${y}" ${this.textFill(role, background)} font-size="${size}" font-weight="${bold ? 700 : 400}" font-family="${this.fontFamilyAttr}" text-anchor="${anchor}" dominant-baseline="middle">${escapeXml(text)}</text>`;
+  }
+
+  private heatColor(palette: ThemePalette, t: number): string {
+    let scale = this.heatScales.get(palette);
+    if (!scale) {
+      scale = createColorScale(palette.heatStops ?? [palette.heatMin, palette.heatMax], {
+        interpolation: this.config.heatInterpolation,
+        buckets: this.config.heatBuckets,
+      });
+      this.heatScales.set(palette, scale);
+    }
+    return scale(t);
+  }
+
+  /**
+   * Color attribute for an element. With a single palette this is a plain attribute;
+   * with a colorScheme the element gets a class that prefers-color-scheme switches.
+   */
+  private paint(
+    attr: 'fill' | 'stroke',
+    className: string,
+    color: (palette: ThemePalette) => string
+  ): string {
+    const scheme = this.config.colorScheme;
+    if (!scheme) return `${attr}="${color(this.config)}"`;
+
+    this.styleRules.set(className, { attr, light: color(scheme.light), dark: color(scheme.dark) });
+    return `class="${className}"`;
+  }
+
+  private renderStyle(): string {
+    if (this.styleRules.size === 0) return '';
+
+    let light = '';
+    let dark = '';
+    for (const [className, rule] of this.styleRules) {
+      light += `.${className}{${rule.attr}:${rule.light}}`;
+      dark += `.${className}{${rule.attr}:${rule.dark}}`;
+    }
+
+    return `<style>${light}@media (prefers-color-scheme: dark){${dark}}</style>`;
+  }
+
+  // @font-face with the subset of the font needed for every label drawn
+  private renderFontFace(): string {
+    if (this.config.fontMode !== 'embed') return '';
+    return `<style>${fontFaceRule(this.requireFont(), FONT_EMBED.FAMILY, this.usedText)}</style>`;
+  }
+
+  private wrapSvg(
+    rects: string,
+    clips: string,
+    texts: string,
+    description: string,
+    hasTileLabels = true
+  ): string {
+    const { width, height } = this.config;
+    const background = this.paint('fill', 'canvas-bg', (p) => p.canvasBg);
+
+    let aria = '';
+    let heading = '';
+    if (this.config.accessible) {
+      const title = this.config.title ?? ACCESSIBILITY.DEFAULT_TITLE;
+      // role="img" would hide the labelled tile links inside from screen readers
+      const role = hasTileLabels ? 'graphics-document' : 'img';
+      aria = ` role="${role}" aria-labelledby="treemap-title treemap-desc"`;
+      heading = `
+  <title id="treemap-title">${escapeXml(title)}</title>
+  <desc id="treemap-desc">${escapeXml(description)}</desc>`;
+    }
 
     return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
-  <rect x="0" y="0" width="${width}" height="${height}" fill="${canvasBg}"/>
-  <defs>${clips}</defs>
+<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}"${aria}>${heading}
+  <rect x="0" y="0" width="${width}" height="${height}" ${background}/>
+  <defs>${this.renderFontFace()}${this.renderStyle()}${clips}</defs>
   ${rects}${texts}
 </svg>`;
   }
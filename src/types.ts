@@ -1,41 +1,259 @@
 import type { HierarchyNode } from 'd3-hierarchy';
+import type { ParsedFont } from './font';
+
+export type ContributionKind =
+  | 'mergedPrs'
+  | 'openedPrs'
+  | 'reviews'
+  | 'issues'
+  | 'discussions'
+  | 'commits';
+
+// Count of contributions per kind; kinds that were not fetched are omitted
+export type ContributionBreakdown = Partial<Record<ContributionKind, number>>;
+
+export type ContributionWeights = Partial<Record<ContributionKind, number>>;
+
+// Contributions GitHub reported vs. how many were actually enumerated
+export type ContributionTotals = Partial<
+  Record<ContributionKind, { reported: number; fetched: number }>
+>;
+
+export type RepositoryMetric = 'stars' | 'contribs' | 'score';
+
+// A metric on the heat gradient, or each repository's primary language color
+export type ColorBy = RepositoryMetric | 'language';
+
+// Placeholders of a tile label template
+export type LabelField =
+  | 'label'
+  | 'owner'
+  | 'nameWithOwner'
+  | 'language'
+  | 'members'
+  | RepositoryMetric
+  | ContributionKind;
+
+export type NamedMetricScale = 'linear' | 'sqrt' | 'log';
+
+export type MetricScale = NamedMetricScale | ((value: number) => number);
+
+export interface TimeWindow {
+  since?: Date;
+  until?: Date;
+}
+
+export interface TimeWindowOptions {
+  since?: string | Date;
+  until?: string | Date;
+  lastDays?: number;
+  year?: number;
+}
 
 export interface Repository {
+  // GraphQL node id
+  id: string;
   name: string;
   nameWithOwner: string;
+  url: string;
   stargazerCount: number;
   isFork: boolean;
+  isArchived: boolean;
+  isPrivate: boolean;
+  description: string | null;
+  // color is the linguist color, null for languages without one
+  primaryLanguage: { name: string; color: string | null } | null;
+  topics: string[];
   owner: { login: string };
   contribs: number;
+  contributions: ContributionBreakdown;
+  // Per-member counts of a team treemap
+  members?: Array<Omit<MemberContribution, 'score'>>;
+}
+
+// One member's share of a repository's contributions in a team treemap
+export interface MemberContribution {
+  login: string;
+  contribs: number;
+  contributions: ContributionBreakdown;
+  score: number;
 }
 
+// How a team treemap draws each tile's per-member breakdown besides its title
+export type MemberBreakdown = 'none' | 'tiles' | 'bands';
+
 export interface NormalizedRepository {
   id: string;
   label: string;
   owner: string;
+  // Repository page, linked from its tile
+  url: string;
   stars: number;
   contribs: number;
+  contributions: ContributionBreakdown;
+  // Weighted sum of contributions, used for heat color
+  score: number;
   isOwnedByUser: boolean;
+  isFork: boolean;
+  description?: string;
+  language?: string;
+  languageColor?: string;
+  topics: string[];
+  isArchived: boolean;
+  isPrivate: boolean;
+  // Only on the "Other" bucket: how many repositories it stands for
+  otherCount?: number;
+  // Team treemaps: each member's share, most contributions first
+  members?: MemberContribution[];
+}
+
+// Which repositories get a tile; every condition that is set must hold.
+// Patterns match owner/name case-insensitively: globs where * stays within a segment
+// and ** crosses them, bare names (no /) matching the repository name, or /regex/flags.
+export interface RepositoryFilter {
+  // When set, only repositories matching one of these
+  include?: string[];
+  exclude?: string[];
+  minStars?: number;
+  // Repositories owned by the user (or a team member) and forks are left out by default
+  includeOwn?: boolean;
+  includeForks?: boolean;
+  // Archived and private repositories are kept by default
+  includeArchived?: boolean;
+  includePrivate?: boolean;
+  // Primary languages to keep or leave out, case-insensitive
+  languages?: string[];
+  excludeLanguages?: string[];
 }
 
-export interface TreemapOptions {
+export interface TreemapOptions extends TimeWindowOptions {
   width?: number;
   height?: number;
   excludeRepos?: string[];
   excludeOwners?: string[];
   username?: string;
+  contributionKinds?: ContributionKind[];
+  contributionWeights?: ContributionWeights;
+  sizeBy?: RepositoryMetric;
+  sizeScale?: MetricScale;
+  colorBy?: ColorBy;
+  colorScale?: MetricScale;
+  tiling?: TreemapTiling;
+  tilingRatio?: number;
+  previousLayout?: LayoutState;
+  groupBy?: GroupBy;
+  groups?: Record<string, string[]>;
 }
 
-export interface TreemapConfig {
-  width: number;
-  height: number;
+export type FontMode = 'reference' | 'embed' | 'paths';
+
+export interface TextMeasurer {
+  // Rendered width in px of text at the given font size
+  measure(text: string, fontSizePx: number, bold?: boolean): number;
+}
+
+export type ThemeName =
+  | 'default'
+  | 'github-dark'
+  | 'github-light'
+  | 'dracula'
+  | 'solarized-dark'
+  | 'solarized-light'
+  | 'high-contrast';
+
+export type ColorInterpolation = 'rgb' | 'oklab' | 'hcl';
+
+export interface ThemePalette {
   canvasBg: string;
   accent: string;
   heatMin: string;
   heatMax: string;
+  // Multi-stop heat gradient; replaces heatMin/heatMax when set
+  heatStops?: string[];
   textPrimary: string;
   textSecondary: string;
+}
+
+export interface TreemapConfig extends ThemePalette {
+  width: number;
+  height: number;
   fontFamily: string;
+  heatInterpolation: ColorInterpolation;
+  // Quantize the heat gradient into this many discrete levels
+  heatBuckets?: number;
+  // Text width source for label fitting (default: built-in tables for fontFamily)
+  textMeasurer?: TextMeasurer;
+  // 'reference' names fontFamily only, 'embed' adds a subset of `font` as @font-face,
+  // 'paths' draws labels as outlines of `font` so no font is needed to view the SVG
+  fontMode: FontMode;
+  font?: ParsedFont;
+  // When set, both palettes are embedded and switched with prefers-color-scheme;
+  // the palette colors above are ignored
+  colorScheme?: { light: ThemePalette; dark: ThemePalette };
+  // Adds a title, summary description and ARIA labels, and adjusts each tile's
+  // text color until it meets minContrast against the tile fill
+  accessible: boolean;
+  minContrast: number;
+  // Accessible name of the image (default: "GitHub contribution treemap")
+  title?: string;
+  colorBy: ColorBy;
+  colorScale: MetricScale;
+  // Tile color for repositories without a (known) language with colorBy 'language'
+  languageFallback: string;
+  // Chrome around the tiles; the layout must leave chromeInsets() free for it.
+  // Title line above the tiles
+  header?: string;
+  // Color legend below the tiles: top languages, or the heat gradient with its range
+  legend: boolean;
+  // Repository and contribution totals with the generation date, along the bottom
+  footer: boolean;
+  // Date shown in the footer (default: when the data was fetched, or now)
+  generatedAt?: Date;
+  // Tile text, one line per \n with {field} placeholders; the first line and lines
+  // wrapped in ** are bold. Lines whose fields are all empty are left out.
+  labelTemplate: string;
+  // {stars} is empty below this many stars
+  minStars: number;
+  // Owners (e.g. your own orgs) whose {owner} is left empty
+  hideOwners: string[];
+  // BCP 47 locale for numbers on tiles, legend and footer
+  locale: string;
+  // Lower-cased owner -> image data URI, drawn as a circle in the top-right corner
+  // of tiles at least avatarMinSize px wide and tall
+  avatars?: Record<string, string>;
+  avatarMinSize: number;
+  // Team treemaps: member sub-tiles below the label, or stacked color bands along the
+  // bottom of each tile, one color per member
+  memberBreakdown: MemberBreakdown;
+}
+
+export type TreemapTiling = 'squarify' | 'resquarify' | 'binary' | 'slice' | 'dice' | 'sliceDice';
+
+// Saved between runs so stable layouts keep tiles in the same order
+export interface LayoutState {
+  version: 1;
+  order: string[];
+}
+
+export interface LayoutOptions {
+  sizeBy?: RepositoryMetric;
+  sizeScale?: MetricScale;
+  tiling?: TreemapTiling;
+  // Target aspect ratio for squarify/resquarify (default: golden ratio)
+  tilingRatio?: number;
+  // Previous run's state; when set, tiles keep their previous order
+  previousLayout?: LayoutState;
+  groupBy?: GroupBy;
+  // Group name -> owners or owner/name entries, used with groupBy: 'custom'
+  groups?: Record<string, string[]>;
+  // Shift tiles down by this much, leaving room above them (e.g. for a header)
+  offsetTop?: number;
+  // Repositories past maxRepos (by tile size), with fewer than minContribs
+  // contributions, or whose tile would be smaller than minArea square pixels are
+  // collapsed into one "Other" tile
+  maxRepos?: number;
+  minContribs?: number;
+  minArea?: number;
 }
 
 export interface GitHubConfig {
@@ -43,12 +261,205 @@ export interface GitHubConfig {
   username?: string;
   timeoutMs: number;
   baseUrl: string;
+  onWarning?: (message: string) => void;
+  // Persistent store of fetched contributions; later fetches only ask for newer ones
+  cache?: ContributionCacheStore;
+  // Ignore what the cache holds and fetch everything again (the result is still cached)
+  refresh?: boolean;
+  // Sleep until the rate limit resets instead of failing when it runs out
+  waitForReset?: boolean;
+  // Per-query cost and rate-limit waits
+  onDebug?: (message: string) => void;
 }
 
-// Extended D3 hierarchy node with treemap layout properties
-export interface TreemapNode extends HierarchyNode<NormalizedRepository> {
+// GraphQL rate-limit points spent by one client, from each response's rateLimit field
+export interface RateLimitUsage {
+  queries: number;
+  used: number;
+  remaining?: number;
+  limit?: number;
+  resetAt?: string;
+}
+
+// Identity of a repository as found by searches; its metadata is fetched separately
+export type RepositoryRef = Pick<Repository, 'id' | 'name' | 'nameWithOwner' | 'url' | 'owner'>;
+
+// One contribution of a search-backed kind, by its PR/issue/discussion node id
+export interface CachedContribution {
+  // Value of the kind's date field (mergedAt, createdAt or updatedAt)
+  date: string;
+  // Repository node id
+  repository: string;
+}
+
+// Everything cached for one username on one API
+export interface ContributionCacheEntry {
+  version: 1;
+  baseUrl: string;
+  username: string;
+  repositories: Record<string, RepositoryRef>;
+  searches: Partial<
+    Record<
+      Exclude<ContributionKind, 'commits'>,
+      {
+        // Unset until a sync enumerates every result
+        syncedAt?: string;
+        // Start of the synced range; unset when it covers all time
+        since?: string;
+        items: Record<string, CachedContribution>;
+      }
+    >
+  >;
+  // Commit counts per repository node id for closed ranges, keyed by "since/until"
+  commits: Record<string, Record<string, number>>;
+}
+
+export interface LoadedImage {
+  bytes: Uint8Array;
+  // e.g. image/png
+  mimeType: string;
+}
+
+// Source of avatar images, e.g. the network or a local directory
+export interface ImageLoader {
+  // undefined when the owner has no image
+  load(owner: string): Promise<LoadedImage | undefined>;
+}
+
+export interface ContributionCacheStore {
+  load(baseUrl: string, username: string): ContributionCacheEntry | undefined;
+  save(entry: ContributionCacheEntry): void;
+}
+
+export type GroupBy = 'none' | 'owner' | 'custom';
+
+// Parent node of a grouped treemap: an owner or a user-defined group
+export interface RepositoryGroup {
+  id: string;
+  label: string;
+  children: NormalizedRepository[];
+}
+
+export type TreemapDatum = NormalizedRepository | RepositoryGroup;
+
+// Extended D3 hierarchy node with treemap layout properties.
+// Leaves carry a NormalizedRepository, group parents a RepositoryGroup.
+export interface TreemapNode<T extends TreemapDatum = NormalizedRepository>
+  extends HierarchyNode<T> {
   x0: number;
   y0: number;
   x1: number;
   y1: number;
 }
+
+export type TreemapGroupNode = TreemapNode<RepositoryGroup>;
+
+export interface TreemapLayout {
+  leaves(): TreemapNode[];
+  // Group parents, empty unless groupBy is set
+  groups(): TreemapGroupNode[];
+}
+
+export type OutputFormat = 'svg' | 'html' | 'png' | 'webp' | 'pdf' | 'json';
+
+// Formats renderTo can produce from an SVG; json comes from the data, not the image
+export type RenderFormat = Exclude<OutputFormat, 'json'>;
+
+export interface RenderToOptions {
+  // Pixel density multiplier for png, webp and pdf (2 for HiDPI)
+  scale?: number;
+  // Font files made available to the rasterizer, besides system fonts
+  fontFiles?: string[];
+}
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Everything behind one image, saved with --format json and rendered again with --input
+export interface TreemapData {
+  version: 1;
+  // The user, or the name of a team treemap
+  username: string;
+  // Team treemaps: the members whose contributions were combined
+  members?: string[];
+  // ISO 8601 time the repositories were fetched from GitHub
+  fetchedAt: string;
+  repositories: NormalizedRepository[];
+  // Tile rectangles of the layout at export time; renders lay the tiles out again
+  layout: Array<TreemapRect & { id: string; group?: string }>;
+  groups: Array<TreemapRect & { id: string; label: string }>;
+}
+
+// Settings a config file, one of its profiles or one of its outputs can hold: the
+// library options JSON can express, plus where and how the CLI writes the image
+export interface ConfigFileOptions {
+  username?: string;
+  members?: string[];
+  org?: string;
+  team?: string;
+  width?: number;
+  height?: number;
+  excludeRepos?: string[];
+  excludeOwners?: string[];
+  filter?: RepositoryFilter;
+  timeoutMs?: number;
+  githubBaseUrl?: string;
+  contributionKinds?: ContributionKind[];
+  contributionWeights?: ContributionWeights;
+  // Cache directory, or false to fetch everything
+  cache?: string | false;
+  refresh?: boolean;
+  waitForReset?: boolean;
+  since?: string;
+  until?: string;
+  lastDays?: number;
+  year?: number;
+  sizeBy?: RepositoryMetric;
+  sizeScale?: NamedMetricScale;
+  colorBy?: ColorBy;
+  colorScale?: NamedMetricScale;
+  tiling?: TreemapTiling;
+  tilingRatio?: number;
+  groupBy?: GroupBy;
+  groups?: Record<string, string[]>;
+  maxRepos?: number;
+  minContribs?: number;
+  minArea?: number;
+  theme?: ThemeName | ThemePalette | 'auto';
+  lightTheme?: ThemeName | ThemePalette;
+  darkTheme?: ThemeName | ThemePalette;
+  fontFile?: string;
+  fontMode?: FontMode;
+  avatars?: boolean | string;
+  config?: Partial<
+    Omit<
+      TreemapConfig,
+      | 'width'
+      | 'height'
+      | 'textMeasurer'
+      | 'font'
+      | 'colorScheme'
+      | 'colorScale'
+      | 'generatedAt'
+      | 'avatars'
+    > & { colorScale: NamedMetricScale }
+  >;
+  // Output file, stdout when unset
+  output?: string;
+  format?: OutputFormat;
+  scale?: number;
+  // Tile order state file, read before rendering and written after
+  stableLayout?: string;
+}
+
+// treemap.config.json or .treemaprc: shared settings, named profiles on top of them,
+// and the images one run renders from a single fetch
+export interface TreemapConfigFile extends ConfigFileOptions {
+  profiles?: Record<string, ConfigFileOptions>;
+  // Profile names, or settings on top of an optional profile
+  outputs?: Array<string | (ConfigFileOptions & { profile?: string })>;
+}
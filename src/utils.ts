@@ -1,9 +1,7 @@
-export function formatStars(n: number): string {
-  if (n < 1000) return String(n);
-  if (n < 10000) return (n / 1000).toFixed(1).replace(/\.0$/, '') + 'k';
-  if (n < 1000000) return Math.round(n / 100) / 10 + 'k';
-  return (Math.round((n / 1000000) * 10) / 10).toString() + 'm';
-}
+import type { ContributionBreakdown, ContributionWeights, TextMeasurer } from './types';
+import { DEFAULT_CONTRIBUTION_WEIGHTS } from './constants';
+import { formatColor, mixColors, parseColor } from './color';
+import { defaultTextMeasurer, graphemes } from './text-metrics';
 
 export function escapeXml(s: string): string {
   return String(s)
@@ -14,43 +12,63 @@ export function escapeXml(s: string): string {
     .replace(/'/g, '&#39;');
 }
 
-export function estimateTextWidth(text: string, fontSizePx: number): number {
-  const avgWidthFactor = 0.6; // average Latin char width ~0.55-0.65 of font size
-  return text.length * fontSizePx * avgWidthFactor;
+export interface TextMeasureOptions {
+  measurer?: TextMeasurer;
+  bold?: boolean;
+}
+
+export function estimateTextWidth(
+  text: string,
+  fontSizePx: number,
+  options: TextMeasureOptions = {}
+): number {
+  const { measurer = defaultTextMeasurer, bold = false } = options;
+  return measurer.measure(text, fontSizePx, bold);
 }
 
 export function chooseFontSizeToFit(
   text: string,
   maxWidthPx: number,
   desiredPx: number,
-  minPx: number
+  minPx: number,
+  options: TextMeasureOptions = {}
 ): number {
   let size = Math.min(desiredPx, 48);
   size = Math.max(size, minPx);
 
+  // Width is linear in font size, so measure once and scale
+  const unitWidth = estimateTextWidth(text, 1, options);
+
   // Shrink if needed
-  while (size > minPx && estimateTextWidth(text, size) > maxWidthPx) {
+  while (size > minPx && unitWidth * size > maxWidthPx) {
     size -= 1;
   }
 
-  if (estimateTextWidth(text, size) > maxWidthPx) return 0; // cannot fit
+  if (unitWidth * size > maxWidthPx) return 0; // cannot fit
   return size;
 }
 
-export function truncateWithEllipsis(text: string, maxWidthPx: number, fontSizePx: number): string {
-  if (estimateTextWidth(text, fontSizePx) <= maxWidthPx) return text;
+export function truncateWithEllipsis(
+  text: string,
+  maxWidthPx: number,
+  fontSizePx: number,
+  options: TextMeasureOptions = {}
+): string {
+  if (estimateTextWidth(text, fontSizePx, options) <= maxWidthPx) return text;
   if (maxWidthPx <= 0) return '';
 
+  // Cut on grapheme boundaries so emoji and combining marks are never split
+  const clusters = graphemes(text);
   const ellipsis = '…';
   let left = 0;
-  let right = text.length;
+  let right = clusters.length;
   let best = '';
 
   while (left <= right) {
     const mid = Math.floor((left + right) / 2);
-    const candidate = text.slice(0, mid) + ellipsis;
+    const candidate = clusters.slice(0, mid).join('') + ellipsis;
 
-    if (estimateTextWidth(candidate, fontSizePx) <= maxWidthPx) {
+    if (estimateTextWidth(candidate, fontSizePx, options) <= maxWidthPx) {
       best = candidate;
       left = mid + 1;
     } else {
@@ -62,13 +80,8 @@ export function truncateWithEllipsis(text: string, maxWidthPx: number, fontSizeP
 }
 
 export function hexToRgb(hex: string): { r: number; g: number; b: number } {
-  const m = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
-  if (!m) return { r: 0, g: 0, b: 0 };
-  return {
-    r: parseInt(m[1], 16),
-    g: parseInt(m[2], 16),
-    b: parseInt(m[3], 16),
-  };
+  const { r, g, b } = parseColor(hex);
+  return { r, g, b };
 }
 
 export function rgbToHex(r: number, g: number, b: number): string {
@@ -77,13 +90,18 @@ export function rgbToHex(r: number, g: number, b: number): string {
 }
 
 export function interpolateHexColor(minHex: string, maxHex: string, t: number): string {
-  const a = hexToRgb(minHex);
-  const b = hexToRgb(maxHex);
   const clamped = Math.max(0, Math.min(1, t || 0));
+  return formatColor(mixColors(parseColor(minHex), parseColor(maxHex), clamped));
+}
 
-  const r = a.r + (b.r - a.r) * clamped;
-  const g = a.g + (b.g - a.g) * clamped;
-  const bb = a.b + (b.b - a.b) * clamped;
-
-  return rgbToHex(r, g, bb);
+export function weightedContributionScore(
+  contributions: ContributionBreakdown,
+  weights: ContributionWeights = {}
+): number {
+  let score = 0;
+  for (const [kind, count] of Object.entries(contributions) as [keyof ContributionBreakdown, number][]) {
+    const weight = weights[kind] ?? DEFAULT_CONTRIBUTION_WEIGHTS[kind];
+    score += Math.max(0, count || 0) * weight;
+  }
+  return score;
 }
@@ -12,7 +12,7 @@ export default defineConfig({
   minify: false,
   target: 'node18',
   outDir: 'dist',
-  external: ['d3-hierarchy'],
+  external: ['d3-hierarchy', 'sharp'],
   define: {
     __VERSION__: JSON.stringify(
       JSON.parse(fs.readFileSync(path.resolve(__dirname, 'package.json'), 'utf8')).version